@@ -0,0 +1,217 @@
+import { StreamChunk, UsageData, AnthropicMessageResponse, AnthropicTextBlock, AnthropicThinkingBlock } from "./types";
+import { isReasoningData, isToolCallData, isUsageData, isFinishReasonData, isErrorData } from "./stream-transformer";
+import { mapFinishReasonToAnthropic } from "./utils/finish-reason";
+import { toAnthropicUsage } from "./utils/usage-utils";
+
+// Anthropic streaming event
+interface AnthropicStreamEvent {
+	type: string;
+	[key: string]: unknown;
+}
+
+/**
+ * Builds an Anthropic message from Gemini's output chunks.
+ * Every chunk is translated into Anthropic streaming events (content_block_start,
+ * content_block_delta, ...), so the same builder serves streaming and non-streaming requests.
+ */
+export class AnthropicMessageBuilder {
+	private message: AnthropicMessageResponse;
+	private openBlock: AnthropicTextBlock | AnthropicThinkingBlock | null = null;
+	private finishReason: string | undefined;
+	private stopSequence: string | undefined;
+	private usage: UsageData | null = null;
+	private failed = false;
+
+	constructor(model: string) {
+		this.message = {
+			id: `msg_${crypto.randomUUID().replace(/-/g, "")}`,
+			type: "message",
+			role: "assistant",
+			model,
+			content: [],
+			stop_reason: null,
+			stop_sequence: null,
+			usage: { input_tokens: 0, output_tokens: 0 }
+		};
+	}
+
+	/**
+	 * Events announcing the message before any content is produced.
+	 * Gemini only reports usage at the end, so the initial usage is zero.
+	 */
+	start(): AnthropicStreamEvent[] {
+		return [{ type: "message_start", message: structuredClone(this.message) }, { type: "ping" }];
+	}
+
+	/**
+	 * Applies one Gemini output chunk and returns the events it produced.
+	 */
+	handleChunk(chunk: StreamChunk): AnthropicStreamEvent[] {
+		// A message has a single output, so only the first candidate is used
+		if ((chunk.candidateIndex ?? 0) !== 0) {
+			return [];
+		}
+
+		if ((chunk.type === "text" || chunk.type === "thinking_content") && typeof chunk.data === "string" && chunk.data) {
+			return this.appendText(chunk.data);
+		} else if (chunk.type === "real_thinking" && typeof chunk.data === "string" && chunk.data) {
+			return this.appendThinking(chunk.data);
+		} else if (chunk.type === "reasoning" && isReasoningData(chunk.data)) {
+			return this.appendThinking(chunk.data.reasoning);
+		} else if (chunk.type === "tool_call" && isToolCallData(chunk.data)) {
+			return this.addToolUse(chunk.data.id, chunk.data.name, chunk.data.arguments);
+		} else if (chunk.type === "finish_reason" && isFinishReasonData(chunk.data)) {
+			this.finishReason = chunk.data.reason;
+			this.stopSequence = chunk.data.stopSequence;
+		} else if (chunk.type === "usage" && isUsageData(chunk.data)) {
+			// Gemini reports cumulative usage, so only the latest value matters
+			this.usage = chunk.data;
+		} else if (chunk.type === "error" && isErrorData(chunk.data)) {
+			// Anthropic SDKs raise an API error for an error event, which also ends the stream
+			this.failed = true;
+			return [{ type: "error", error: { type: anthropicErrorType(chunk.data.status), message: chunk.data.message } }];
+		}
+		return [];
+	}
+
+	/**
+	 * Closes any open content block and completes the message.
+	 */
+	finish(): AnthropicStreamEvent[] {
+		if (this.failed) {
+			return [];
+		}
+
+		const events = this.closeOpenBlock();
+		const hasToolUse = this.message.content.some((block) => block.type === "tool_use");
+		this.message.stop_reason = this.stopSequence
+			? "stop_sequence"
+			: mapFinishReasonToAnthropic(this.finishReason, hasToolUse);
+		this.message.stop_sequence = this.stopSequence ?? null;
+		if (this.usage) {
+			this.message.usage = toAnthropicUsage(this.usage);
+		}
+
+		events.push(
+			{
+				type: "message_delta",
+				delta: { stop_reason: this.message.stop_reason, stop_sequence: this.message.stop_sequence },
+				usage: this.message.usage
+			},
+			{ type: "message_stop" }
+		);
+		return events;
+	}
+
+	getMessage(): AnthropicMessageResponse {
+		return this.message;
+	}
+
+	private appendText(text: string): AnthropicStreamEvent[] {
+		const events: AnthropicStreamEvent[] = [];
+		if (this.openBlock?.type !== "text") {
+			events.push(...this.closeOpenBlock());
+			events.push(this.openContentBlock({ type: "text", text: "" }));
+		}
+
+		(this.openBlock as AnthropicTextBlock).text += text;
+		events.push({
+			type: "content_block_delta",
+			index: this.message.content.length - 1,
+			delta: { type: "text_delta", text }
+		});
+		return events;
+	}
+
+	private appendThinking(thinking: string): AnthropicStreamEvent[] {
+		const events: AnthropicStreamEvent[] = [];
+		if (this.openBlock?.type !== "thinking") {
+			events.push(...this.closeOpenBlock());
+			// Gemini attaches thought signatures to function calls instead, so thinking blocks are unsigned
+			events.push(this.openContentBlock({ type: "thinking", thinking: "", signature: "" }));
+		}
+
+		(this.openBlock as AnthropicThinkingBlock).thinking += thinking;
+		events.push({
+			type: "content_block_delta",
+			index: this.message.content.length - 1,
+			delta: { type: "thinking_delta", thinking }
+		});
+		return events;
+	}
+
+	private addToolUse(id: string, name: string, args: string): AnthropicStreamEvent[] {
+		const events = this.closeOpenBlock();
+		const index = this.message.content.length;
+
+		let input: Record<string, unknown>;
+		try {
+			input = JSON.parse(args);
+		} catch {
+			input = {};
+		}
+		this.message.content.push({ type: "tool_use", id, name, input });
+
+		// Each Gemini function call arrives complete, so the input is sent as a single JSON delta
+		events.push(
+			{ type: "content_block_start", index, content_block: { type: "tool_use", id, name, input: {} } },
+			{ type: "content_block_delta", index, delta: { type: "input_json_delta", partial_json: args } },
+			{ type: "content_block_stop", index }
+		);
+		return events;
+	}
+
+	private openContentBlock(block: AnthropicTextBlock | AnthropicThinkingBlock): AnthropicStreamEvent {
+		this.message.content.push(block);
+		this.openBlock = block;
+		return { type: "content_block_start", index: this.message.content.length - 1, content_block: { ...block } };
+	}
+
+	private closeOpenBlock(): AnthropicStreamEvent[] {
+		if (!this.openBlock) {
+			return [];
+		}
+		this.openBlock = null;
+		return [{ type: "content_block_stop", index: this.message.content.length - 1 }];
+	}
+}
+
+/**
+ * Maps an HTTP status to the matching Anthropic error type.
+ */
+export function anthropicErrorType(status: number): string {
+	if (status === 401) return "authentication_error";
+	if (status === 403) return "permission_error";
+	if (status === 404) return "not_found_error";
+	if (status === 429) return "rate_limit_error";
+	if (status === 503) return "overloaded_error";
+	if (status >= 500) return "api_error";
+	return "invalid_request_error";
+}
+
+/**
+ * Creates a TransformStream to convert Gemini's output chunks
+ * into Anthropic Messages API server-sent events (message_start, content_block_delta, ...).
+ */
+export function createAnthropicStreamTransformer(model: string): TransformStream<StreamChunk, Uint8Array> {
+	const builder = new AnthropicMessageBuilder(model);
+	const encoder = new TextEncoder();
+
+	const enqueueEvents = (controller: TransformStreamDefaultController<Uint8Array>, events: AnthropicStreamEvent[]) => {
+		for (const event of events) {
+			controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+		}
+	};
+
+	return new TransformStream({
+		start(controller) {
+			enqueueEvents(controller, builder.start());
+		},
+		transform(chunk, controller) {
+			enqueueEvents(controller, builder.handleChunk(chunk));
+		},
+		flush(controller) {
+			enqueueEvents(controller, builder.finish());
+		}
+	});
+}
@@ -8,6 +8,7 @@ import {
 	TOKEN_BUFFER_TIME,
 	KV_TOKEN_KEY
 } from "./config";
+import { parseGeminiApiError } from "./utils/error-utils";
 
 // Auth-related interfaces
 interface TokenRefreshResponse {
@@ -228,8 +229,7 @@ export class AuthManager {
 				await this.initializeAuth(); // This will refresh the token
 				return this.callEndpoint(method, body, true); // Retry once
 			}
-			const errorText = await response.text();
-			throw new Error(`API call failed with status ${response.status}: ${errorText}`);
+			throw await parseGeminiApiError(response, "API call failed");
 		}
 
 		return response.json();
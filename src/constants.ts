@@ -23,9 +23,43 @@ export const THINKING_CONTENT_CHUNK_SIZE = 15;
 export const DEFAULT_THINKING_BUDGET = -1; // -1 means dynamic allocation by Gemini (recommended)
 export const DISABLED_THINKING_BUDGET = 0; // 0 disables thinking entirely
 
+// Thinking budgets for OpenAI reasoning_effort levels, clamped to each model's supported range
+export const REASONING_EFFORT_BUDGETS = {
+	minimal: 0,
+	low: 1024,
+	medium: 8192,
+	high: 32768
+} as const;
+
 // Generation config defaults
 export const DEFAULT_TEMPERATURE = 0.7;
 
+// Gemini requires conversations to start with a user turn, so one is inserted when they start with the model
+export const LEADING_USER_TURN_PLACEHOLDER = "Continue.";
+
+// Model name suffixes, e.g. "gemini-2.5-pro:thinking-high" or "gemini-2.5-flash:search"
+export const MODEL_SUFFIX_SEPARATOR = ":";
+export const THINKING_MODEL_SUFFIX_PREFIX = "thinking-"; // Followed by a reasoning effort level
+export const SEARCH_MODEL_SUFFIX = "search"; // Enables Google Search grounding
+
+// Harm categories that safety presets apply to
+export const HARM_CATEGORIES = [
+	"HARM_CATEGORY_HARASSMENT",
+	"HARM_CATEGORY_HATE_SPEECH",
+	"HARM_CATEGORY_SEXUALLY_EXPLICIT",
+	"HARM_CATEGORY_DANGEROUS_CONTENT",
+	"HARM_CATEGORY_CIVIC_INTEGRITY"
+] as const;
+
+// Blocking thresholds for the safety_preset request parameter, named like the AI Studio safety settings
+export const SAFETY_PRESET_THRESHOLDS = {
+	off: "OFF",
+	block_none: "BLOCK_NONE",
+	block_few: "BLOCK_ONLY_HIGH",
+	block_some: "BLOCK_MEDIUM_AND_ABOVE",
+	block_most: "BLOCK_LOW_AND_ABOVE"
+} as const;
+
 // Auto model switching configuration
 export const AUTO_SWITCH_MODEL_MAP = {
 	"gemini-2.5-pro": "gemini-2.5-flash"
@@ -33,3 +67,53 @@ export const AUTO_SWITCH_MODEL_MAP = {
 
 // HTTP status codes for rate limiting
 export const RATE_LIMIT_STATUS_CODES = [429, 503] as const;
+
+// Tool calling configuration
+export const TOOL_CALL_ID_PREFIX = "call_";
+export const KV_THOUGHT_SIGNATURE_PREFIX = "thought_signature:"; // KV key prefix for tool call thought signatures
+export const THOUGHT_SIGNATURE_TTL = 86400; // Keep thought signatures for 24 hours (in seconds)
+
+// Maximum number of candidates (OpenAI "n") Gemini can return per request
+export const MAX_CANDIDATE_COUNT = 8;
+
+// Legacy text completion (/v1/completions) configuration
+export const TEXT_COMPLETION_OBJECT = "text_completion";
+export const TEXT_COMPLETION_SYSTEM_PROMPT =
+	"Continue the following text exactly where it ends. Output only the continuation, without repeating the given text or adding any commentary.";
+export const FILL_IN_THE_MIDDLE_MARKER = "<FILL_HERE>";
+export const FILL_IN_THE_MIDDLE_SYSTEM_PROMPT = `You are a code completion engine. Output only the text that replaces ${FILL_IN_THE_MIDDLE_MARKER} so that the text before and after it join seamlessly. Do not repeat the surrounding text and do not add explanations or markdown code fences.`;
+
+// Embedding configuration
+export const EMBEDDING_BATCH_SIZE = 100; // Maximum inputs per batchEmbedContents request
+export const CHARS_PER_TOKEN_ESTIMATE = 4; // Gemini embed APIs report no usage, so tokens are estimated from length
+
+// Responses API configuration
+export const KV_RESPONSE_PREFIX = "response:"; // KV key prefix for stored Responses API state
+export const RESPONSE_STORE_TTL = 2592000; // Keep stored responses for 30 days (in seconds)
+
+// Ollama API configuration
+export const OLLAMA_API_VERSION = "0.9.0"; // Ollama version reported by /api/version for client compatibility checks
+
+// Log probability configuration
+export const MAX_TOP_LOGPROBS = 20; // Upper bound for top_logprobs, as in the OpenAI API
+
+// Response header listing request parameters that were accepted but ignored
+export const PARAMETER_WARNINGS_HEADER = "X-Parameter-Warnings";
+
+// Audio input configuration
+export const MAX_AUDIO_INPUT_BYTES = 20 * 1024 * 1024; // Gemini rejects inline data above 20 MB per request
+
+// Document file input configuration
+export const MAX_FILE_INPUT_BYTES = 20 * 1024 * 1024; // Gemini rejects inline data above 20 MB per request
+
+// Remote image configuration
+export const KV_REMOTE_IMAGE_PREFIX = "remote_image:"; // KV key prefix for downloaded images, keyed by URL hash
+export const REMOTE_IMAGE_CACHE_TTL = 86400; // Keep downloaded images for 24 hours (in seconds)
+export const REMOTE_IMAGE_FETCH_TIMEOUT_MS = 10000; // Give up on image downloads after 10 seconds
+export const MAX_REMOTE_IMAGE_BYTES = 10 * 1024 * 1024; // Keeps the base64 data URL within the KV value size limit
+
+// Response cache configuration
+export const KV_RESPONSE_CACHE_PREFIX = "response_cache:"; // KV key prefix for cached responses, keyed by request hash
+export const DEFAULT_RESPONSE_CACHE_TTL = 3600; // Keep cached responses for 1 hour unless RESPONSE_CACHE_TTL is set (in seconds)
+export const MIN_RESPONSE_CACHE_TTL = 60; // Shortest expiration KV accepts (in seconds)
+export const CACHE_STATUS_HEADER = "X-Cache"; // HIT or MISS for requests the response cache applies to
@@ -1,28 +1,71 @@
-import { Env, StreamChunk, ReasoningData, UsageData, ChatMessage, MessageContent, SafetySetting } from "./types";
+import {
+	Env,
+	StreamChunk,
+	ReasoningData,
+	UsageData,
+	ChatMessage,
+	MessageContent,
+	StreamContentOptions,
+	CompletionResult,
+	CompletionChoiceResult,
+	ToolCallData,
+	FinishReasonData,
+	LogprobsData,
+	GroundingData,
+	SafetyRating,
+	SafetyRatingsData
+} from "./types";
 import { AuthManager } from "./auth";
 import { CODE_ASSIST_ENDPOINT, CODE_ASSIST_API_VERSION } from "./config";
-import { REASONING_MESSAGES, REASONING_CHUNK_DELAY, THINKING_CONTENT_CHUNK_SIZE } from "./constants";
+import {
+	REASONING_MESSAGES,
+	REASONING_CHUNK_DELAY,
+	THINKING_CONTENT_CHUNK_SIZE,
+	TOOL_CALL_ID_PREFIX,
+	KV_THOUGHT_SIGNATURE_PREFIX,
+	THOUGHT_SIGNATURE_TTL,
+	EMBEDDING_BATCH_SIZE,
+	LEADING_USER_TURN_PLACEHOLDER
+} from "./constants";
 import { geminiCliModels } from "./models";
 import { validateImageUrl } from "./utils/image-utils";
+import { validateAudioInput } from "./utils/audio-utils";
+import { validateFileInput } from "./utils/file-utils";
+import { GeminiLogprobsResult, toOpenAILogprobs } from "./utils/logprobs-utils";
+import { GeminiGroundingMetadata, CitationAligner, toUrlCitations } from "./utils/grounding-utils";
+import {
+	GeminiExecutableCode,
+	GeminiCodeExecutionResult,
+	renderExecutableCode,
+	renderCodeExecutionResult,
+	renderInlineImage
+} from "./utils/markdown-utils";
+import { parseGeminiApiError, PromptBlockedError, InvalidRequestError } from "./utils/error-utils";
+import { GeminiUsageMetadata, fromGeminiUsage } from "./utils/usage-utils";
 import { GenerationConfigValidator } from "./helpers/generation-config-validator";
 import { AutoModelSwitchingHelper } from "./helpers/auto-model-switching";
 
 // Gemini API response types
 interface GeminiCandidate {
+	index?: number;
 	content?: {
-		parts?: Array<{ text?: string }>;
+		parts?: GeminiPart[];
 	};
-}
-
-interface GeminiUsageMetadata {
-	promptTokenCount?: number;
-	candidatesTokenCount?: number;
+	finishReason?: string;
+	logprobsResult?: GeminiLogprobsResult; // Present when responseLogprobs is enabled
+	groundingMetadata?: GeminiGroundingMetadata; // Present when the response is grounded with Google Search
+	safetyRatings?: SafetyRating[];
 }
 
 interface GeminiResponse {
 	response?: {
 		candidates?: GeminiCandidate[];
 		usageMetadata?: GeminiUsageMetadata;
+		promptFeedback?: {
+			blockReason?: string; // Set when the prompt was blocked, in which case there are no candidates
+			blockReasonMessage?: string;
+			safetyRatings?: SafetyRating[];
+		};
 	};
 }
 
@@ -37,6 +80,18 @@ interface GeminiPart {
 		mimeType: string;
 		fileUri: string;
 	};
+	functionCall?: {
+		id?: string;
+		name: string;
+		args?: Record<string, unknown>;
+	};
+	functionResponse?: {
+		name: string;
+		response: Record<string, unknown>;
+	};
+	executableCode?: GeminiExecutableCode; // Code generated by the code execution tool
+	codeExecutionResult?: GeminiCodeExecutionResult; // Output of the generated code
+	thoughtSignature?: string; // Opaque reasoning context attached to function calls
 }
 
 // Message content types - keeping only the local ones needed
@@ -50,6 +105,22 @@ interface GeminiFormattedMessage {
 	parts: GeminiPart[];
 }
 
+interface GeminiEmbedding {
+	values: number[];
+}
+
+interface GeminiEmbedResponse {
+	embedding?: GeminiEmbedding;
+	embeddings?: GeminiEmbedding[];
+}
+
+interface CandidateStreamState {
+	hasStartedThinking: boolean;
+	hasClosedThinking: boolean;
+	text: string; // Model text so far, which grounding segments point into
+	citationAligner: CitationAligner; // Places citations around rendered code execution parts
+}
+
 interface ProjectDiscoveryResponse {
 	cloudaicompanionProject?: string;
 }
@@ -115,56 +186,233 @@ export class GeminiApiClient {
 		let buffer = "";
 		let objectBuffer = "";
 
-		while (true) {
-			const { done, value } = await reader.read();
-			if (done) {
-				if (objectBuffer) {
-					try {
-						yield JSON.parse(objectBuffer);
-					} catch (e) {
-						console.error("Error parsing final SSE JSON object:", e);
-					}
-				}
-				break;
-			}
-
-			buffer += value;
-			const lines = buffer.split("\n");
-			buffer = lines.pop() || ""; // Keep the last, possibly incomplete, line.
-
-			for (const line of lines) {
-				if (line.trim() === "") {
+		try {
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) {
 					if (objectBuffer) {
 						try {
 							yield JSON.parse(objectBuffer);
 						} catch (e) {
-							console.error("Error parsing SSE JSON object:", e);
+							console.error("Error parsing final SSE JSON object:", e);
+						}
+					}
+					break;
+				}
+
+				buffer += value;
+				const lines = buffer.split("\n");
+				buffer = lines.pop() || ""; // Keep the last, possibly incomplete, line.
+
+				for (const line of lines) {
+					if (line.trim() === "") {
+						if (objectBuffer) {
+							try {
+								yield JSON.parse(objectBuffer);
+							} catch (e) {
+								console.error("Error parsing SSE JSON object:", e);
+							}
+							objectBuffer = "";
 						}
-						objectBuffer = "";
+					} else if (line.startsWith("data: ")) {
+						objectBuffer += line.substring(6);
 					}
-				} else if (line.startsWith("data: ")) {
-					objectBuffer += line.substring(6);
 				}
 			}
+		} finally {
+			// Drop the upstream response when the consumer stops reading early
+			reader.cancel().catch(() => undefined);
 		}
 	}
 
 	/**
-	 * Converts a message to Gemini format, handling both text and image content.
+	 * Converts the conversation to Gemini contents, pairing tool results with the calls that produced them.
+	 */
+	private messagesToGeminiContents(
+		messages: ChatMessage[],
+		thoughtSignatures: Map<string, string>
+	): GeminiFormattedMessage[] {
+		const toolNames = new Map<string, string>();
+		const contents: GeminiFormattedMessage[] = [];
+
+		for (const msg of messages) {
+			if (msg.role === "tool") {
+				const part = this.toolResultToGeminiPart(msg, toolNames);
+				const previous = contents[contents.length - 1];
+
+				// Gemini expects every response to a parallel function call in a single turn
+				if (previous && previous.parts.every((p) => p.functionResponse)) {
+					previous.parts.push(part);
+				} else {
+					contents.push({ role: "user", parts: [part] });
+				}
+				continue;
+			}
+
+			for (const toolCall of msg.tool_calls || []) {
+				toolNames.set(toolCall.id, toolCall.function.name);
+			}
+			contents.push(this.messageToGeminiFormat(msg, thoughtSignatures));
+		}
+
+		return contents;
+	}
+
+	/**
+	 * Brings the contents into the shape Gemini requires: consecutive turns of the same role
+	 * are merged so roles alternate, and the conversation starts with a user turn.
+	 */
+	private normalizeContents(contents: GeminiFormattedMessage[]): GeminiFormattedMessage[] {
+		const normalized: GeminiFormattedMessage[] = [];
+
+		for (const content of contents) {
+			const previous = normalized[normalized.length - 1];
+			if (previous?.role === content.role) {
+				previous.parts.push(...content.parts);
+			} else {
+				normalized.push({ role: content.role, parts: [...content.parts] });
+			}
+		}
+
+		if (normalized[0]?.role !== "user") {
+			normalized.unshift({ role: "user", parts: [{ text: LEADING_USER_TURN_PLACEHOLDER }] });
+		}
+
+		return normalized;
+	}
+
+	/**
+	 * Converts a "tool" role message into a Gemini functionResponse part.
+	 */
+	private toolResultToGeminiPart(msg: ChatMessage, toolNames: Map<string, string>): GeminiPart {
+		const name = msg.tool_call_id ? toolNames.get(msg.tool_call_id) : undefined;
+		if (!name) {
+			throw new InvalidRequestError(`Tool message references unknown tool_call_id: ${msg.tool_call_id}`, "messages");
+		}
+
+		const output = Array.isArray(msg.content)
+			? msg.content
+					.filter(isTextContent)
+					.map((c) => c.text)
+					.join("")
+			: msg.content || "";
+
+		// Gemini requires the response to be an object, so wrap non-object tool output
+		let response: Record<string, unknown>;
+		try {
+			const parsed = JSON.parse(output);
+			response = typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : { content: parsed };
+		} catch {
+			response = { content: output };
+		}
+
+		return { functionResponse: { name, response } };
+	}
+
+	/**
+	 * Converts an assistant message with tool calls into Gemini functionCall parts.
 	 */
-	private messageToGeminiFormat(msg: ChatMessage): GeminiFormattedMessage {
+	private toolCallsToGeminiParts(msg: ChatMessage, thoughtSignatures: Map<string, string>): GeminiPart[] {
+		const parts: GeminiPart[] = [];
+
+		// Text sent alongside the tool calls, which clients may send as content parts
+		const text = Array.isArray(msg.content)
+			? msg.content
+					.filter(isTextContent)
+					.map((c) => c.text)
+					.join("")
+			: msg.content;
+		if (text) {
+			parts.push({ text });
+		}
+
+		for (const toolCall of msg.tool_calls || []) {
+			let args: Record<string, unknown> = {};
+			try {
+				args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+			} catch {
+				throw new InvalidRequestError(`Invalid JSON in arguments of tool call ${toolCall.id}`, "messages");
+			}
+
+			const thoughtSignature = toolCall.extra_content?.google?.thought_signature || thoughtSignatures.get(toolCall.id);
+
+			parts.push({
+				functionCall: { name: toolCall.function.name, args },
+				...(thoughtSignature && { thoughtSignature })
+			});
+		}
+
+		return parts;
+	}
+
+	/**
+	 * Looks up cached thought signatures for tool calls that were echoed back without one.
+	 */
+	private async resolveThoughtSignatures(messages: ChatMessage[]): Promise<Map<string, string>> {
+		const signatures = new Map<string, string>();
+		const missingIds = messages
+			.flatMap((msg) => msg.tool_calls || [])
+			.filter((toolCall) => !toolCall.extra_content?.google?.thought_signature)
+			.map((toolCall) => toolCall.id);
+
+		if (!missingIds.length) {
+			return signatures;
+		}
+
+		try {
+			const cached = await Promise.all(
+				missingIds.map((id) => this.env.GEMINI_CLI_KV.get(`${KV_THOUGHT_SIGNATURE_PREFIX}${id}`))
+			);
+			missingIds.forEach((id, index) => {
+				const signature = cached[index];
+				if (signature) {
+					signatures.set(id, signature);
+				}
+			});
+		} catch (kvError) {
+			console.error("Failed to load thought signatures from KV storage:", kvError);
+		}
+
+		return signatures;
+	}
+
+	/**
+	 * Caches a tool call's thought signature in KV storage so clients that drop extra fields keep working.
+	 */
+	private async cacheThoughtSignature(toolCallId: string, thoughtSignature: string): Promise<void> {
+		try {
+			await this.env.GEMINI_CLI_KV.put(`${KV_THOUGHT_SIGNATURE_PREFIX}${toolCallId}`, thoughtSignature, {
+				expirationTtl: THOUGHT_SIGNATURE_TTL
+			});
+		} catch (kvError) {
+			console.error("Failed to cache thought signature in KV storage:", kvError);
+			// Don't throw here, the signature is still returned to the client inline
+		}
+	}
+
+	/**
+	 * Converts a message to Gemini format, handling text, image and tool call content.
+	 */
+	private messageToGeminiFormat(msg: ChatMessage, thoughtSignatures: Map<string, string>): GeminiFormattedMessage {
 		const role = msg.role === "assistant" ? "model" : "user";
 
+		if (msg.role === "assistant" && msg.tool_calls?.length) {
+			return { role, parts: this.toolCallsToGeminiParts(msg, thoughtSignatures) };
+		}
+
+		// Gemini has no participant names, so named user messages are prefixed with the name instead
+		const namePrefix = msg.role === "user" && msg.name ? `${msg.name}: ` : "";
+
 		if (typeof msg.content === "string") {
 			// Simple text message
 			return {
 				role,
-				parts: [{ text: msg.content }]
+				parts: [{ text: namePrefix + msg.content }]
 			};
 		}
 
 		if (Array.isArray(msg.content)) {
-			// Multimodal message with text and/or images
+			// Multimodal message with text, images, audio and/or files
 			const parts: GeminiPart[] = [];
 
 			for (const content of msg.content) {
@@ -176,41 +424,62 @@ export class GeminiApiClient {
 					// Validate image URL
 					const validation = validateImageUrl(imageUrl);
 					if (!validation.isValid) {
-						throw new Error(`Invalid image: ${validation.error}`);
+						throw new InvalidRequestError(`Invalid image: ${validation.error}`, "messages");
 					}
 
-					if (imageUrl.startsWith("data:")) {
-						// Handle base64 encoded images
-						const [mimeType, base64Data] = imageUrl.split(",");
-						const mediaType = mimeType.split(":")[1].split(";")[0];
+					// The routes inline remote images as data URLs with RemoteImageFetcher before streaming
+					if (!imageUrl.startsWith("data:")) {
+						throw new InvalidRequestError(`Invalid image: remote image was not downloaded: ${imageUrl}`, "messages");
+					}
 
-						parts.push({
-							inlineData: {
-								mimeType: mediaType,
-								data: base64Data
-							}
-						});
-					} else {
-						// Handle URL images
-						// Note: For better reliability, you might want to fetch the image
-						// and convert it to base64, as Gemini API might have limitations with external URLs
-						parts.push({
-							fileData: {
-								mimeType: validation.mimeType || "image/jpeg",
-								fileUri: imageUrl
-							}
-						});
+					// Handle base64 encoded images
+					const [mimeType, base64Data] = imageUrl.split(",");
+					const mediaType = mimeType.split(":")[1].split(";")[0];
+
+					parts.push({
+						inlineData: {
+							mimeType: mediaType,
+							data: base64Data
+						}
+					});
+				} else if (content.type === "input_audio" && content.input_audio) {
+					const validation = validateAudioInput(content.input_audio);
+					if (!validation.isValid || !validation.mimeType) {
+						throw new InvalidRequestError(`Invalid audio: ${validation.error}`, "messages");
 					}
+
+					parts.push({
+						inlineData: {
+							mimeType: validation.mimeType,
+							data: content.input_audio.data
+						}
+					});
+				} else if (content.type === "file" && content.file) {
+					const validation = validateFileInput(content.file);
+					if (!validation.isValid || !validation.mimeType || !validation.data) {
+						throw new InvalidRequestError(`Invalid file: ${validation.error}`, "messages");
+					}
+
+					parts.push({
+						inlineData: {
+							mimeType: validation.mimeType,
+							data: validation.data
+						}
+					});
 				}
 			}
 
+			if (namePrefix) {
+				parts.unshift({ text: namePrefix });
+			}
+
 			return { role, parts };
 		}
 
 		// Fallback for unexpected content format
 		return {
 			role,
-			parts: [{ text: String(msg.content) }]
+			parts: [{ text: String(msg.content ?? "") }]
 		};
 	}
 
@@ -236,28 +505,23 @@ export class GeminiApiClient {
 		modelId: string,
 		systemPrompt: string,
 		messages: ChatMessage[],
-		options?: {
-			includeReasoning?: boolean;
-			thinkingBudget?: number;
-			generationConfig?: Record<string, any>;
-			safetySettings?: SafetySetting[];
-			systemInstruction?: string;
-		}
+		options?: StreamContentOptions
 	): AsyncGenerator<StreamChunk> {
 		await this.authManager.initializeAuth();
 		const projectId = await this.discoverProjectId();
 
-		const contents = messages.map((msg) => this.messageToGeminiFormat(msg));
+		const thoughtSignatures = await this.resolveThoughtSignatures(messages);
+		const contents = this.normalizeContents(this.messagesToGeminiContents(messages, thoughtSignatures));
 
-		if (systemPrompt) {
-			contents.unshift({ role: "user", parts: [{ text: systemPrompt }] });
-		}
+		// The system prompt is sent as Gemini's native system instruction instead of a conversation turn
+		const systemText = [options?.systemInstruction, systemPrompt].filter(Boolean).join("\n\n");
+		const systemInstruction = systemText ? { parts: [{ text: systemText }] } : undefined;
 
 		// Check if this is a thinking model and which thinking mode to use
 		const isThinkingModel = geminiCliModels[modelId]?.thinking || false;
 		const isRealThinkingEnabled = this.env.ENABLE_REAL_THINKING === "true";
 		const isFakeThinkingEnabled = this.env.ENABLE_FAKE_THINKING === "true";
-		const streamThinkingAsContent = this.env.STREAM_THINKING_AS_CONTENT === "true";
+		const streamThinkingAsContent = options?.streamThinkingAsContent ?? this.env.STREAM_THINKING_AS_CONTENT === "true";
 		const includeReasoning = options?.includeReasoning || false;
 
 		// Use the validation helper to create a proper generation config
@@ -283,8 +547,11 @@ export class GeminiApiClient {
 			project: projectId,
 			request: {
 				contents: contents,
+				...(systemInstruction && { systemInstruction }),
 				generationConfig,
-				...(options?.safetySettings && { safetySettings: options.safetySettings })
+				...(options?.safetySettings && { safetySettings: options.safetySettings }),
+				...(options?.tools && { tools: options.tools }),
+				...(options?.toolConfig && { toolConfig: options.toolConfig })
 			}
 		};
 
@@ -438,7 +705,8 @@ export class GeminiApiClient {
 					// Add a notification chunk about the model switch
 					yield {
 						type: "text",
-						data: this.autoSwitchHelper.createSwitchNotification(originalModel, fallbackModel)
+						data: this.autoSwitchHelper.createSwitchNotification(originalModel, fallbackModel),
+						autoSwitched: true
 					};
 
 					yield* this.performStreamRequest(
@@ -452,129 +720,254 @@ export class GeminiApiClient {
 				}
 			}
 
-			const errorText = await response.text();
-			console.error(`[GeminiAPI] Stream request failed: ${response.status}`, errorText);
-			throw new Error(`Stream request failed: ${response.status}`);
+			const apiError = await parseGeminiApiError(response, "Stream request failed");
+			console.error("[GeminiAPI]", apiError.message);
+			throw apiError;
 		}
 
 		if (!response.body) {
 			throw new Error("Response has no body");
 		}
 
-		let hasClosedThinking = false;
-		let hasStartedThinking = false;
+		// Thinking tag state is tracked per candidate so multiple choices stream independently
+		const candidateStates = new Map<number, CandidateStreamState>();
 
 		for await (const jsonData of this.parseSSEStream(response.body)) {
-			const candidate = jsonData.response?.candidates?.[0];
-
-			if (candidate?.content?.parts) {
-				for (const part of candidate.content.parts as GeminiPart[]) {
-					// Handle real thinking content from Gemini
-					if (part.thought === true && part.text) {
-						const thinkingText = part.text;
-
-						if (realThinkingAsContent) {
-							// Stream as content with <thinking> tags (DeepSeek R1 style)
-							if (!hasStartedThinking) {
-								yield {
-									type: "thinking_content",
-									data: "<thinking>\n"
-								};
-								hasStartedThinking = true;
-							}
+			const promptFeedback = jsonData.response?.promptFeedback;
+			if (promptFeedback?.blockReason) {
+				throw new PromptBlockedError(
+					promptFeedback.blockReason,
+					promptFeedback.blockReasonMessage,
+					promptFeedback.safetyRatings
+				);
+			}
 
+			const candidates = jsonData.response?.candidates || [];
+
+			for (const [position, candidate] of candidates.entries()) {
+				const candidateIndex = candidate.index ?? position;
+
+				let state = candidateStates.get(candidateIndex);
+				if (!state) {
+					state = {
+						hasStartedThinking: false,
+						hasClosedThinking: false,
+						text: "",
+						citationAligner: new CitationAligner()
+					};
+					candidateStates.set(candidateIndex, state);
+				}
+
+				if (candidate.content?.parts) {
+					for await (const chunk of this.processCandidateParts(
+						candidate.content.parts,
+						state,
+						needsThinkingClose,
+						realThinkingAsContent
+					)) {
+						yield { ...chunk, candidateIndex };
+					}
+				}
+
+				// Grounding metadata arrives with the last parts and cites ranges of the whole model text
+				if (candidate.groundingMetadata?.groundingSupports?.length) {
+					const groundingData: GroundingData = {
+						annotations: state.citationAligner.align(toUrlCitations(candidate.groundingMetadata, state.text))
+					};
+					yield { type: "grounding", data: groundingData, candidateIndex };
+				}
+
+				// Log probabilities cover the tokens of the text parts yielded above
+				if (candidate.logprobsResult?.chosenCandidates?.length) {
+					const logprobsData: LogprobsData = { content: toOpenAILogprobs(candidate.logprobsResult) };
+					yield { type: "logprobs", data: logprobsData, candidateIndex };
+				}
+
+				if (candidate.safetyRatings?.length) {
+					const safetyRatingsData: SafetyRatingsData = {
+						safetyRatings: candidate.safetyRatings.map((rating) => ({
+							category: rating.category,
+							probability: rating.probability,
+							...(rating.blocked && { blocked: true })
+						}))
+					};
+					yield { type: "safety_ratings", data: safetyRatingsData, candidateIndex };
+				}
+
+				if (candidate.finishReason) {
+					const finishReasonData: FinishReasonData = { reason: candidate.finishReason };
+					yield { type: "finish_reason", data: finishReasonData, candidateIndex };
+				}
+			}
+
+			if (jsonData.response?.usageMetadata) {
+				const usageData: UsageData = fromGeminiUsage(jsonData.response.usageMetadata);
+				yield {
+					type: "usage",
+					data: usageData
+				};
+			}
+		}
+	}
+
+	/**
+	 * Converts the parts of a single candidate into stream chunks, handling thinking tags and function calls.
+	 */
+	private async *processCandidateParts(
+		parts: GeminiPart[],
+		state: CandidateStreamState,
+		needsThinkingClose: boolean,
+		realThinkingAsContent: boolean
+	): AsyncGenerator<StreamChunk> {
+		for (const part of parts) {
+			// Handle real thinking content from Gemini
+			if (part.thought === true && part.text) {
+				const thinkingText = part.text;
+
+				if (realThinkingAsContent) {
+					// Stream as content with <thinking> tags (DeepSeek R1 style)
+					if (!state.hasStartedThinking) {
+						yield {
+							type: "thinking_content",
+							data: "<thinking>\n"
+						};
+						state.hasStartedThinking = true;
+					}
+
+					yield {
+						type: "thinking_content",
+						data: thinkingText
+					};
+				} else {
+					// Stream as separate reasoning field
+					yield {
+						type: "real_thinking",
+						data: thinkingText
+					};
+				}
+			}
+			// Check if text content contains <think> tags (based on your original example)
+			else if (part.text && part.text.includes("<think>")) {
+				if (realThinkingAsContent) {
+					// Extract thinking content and convert to our format
+					const thinkingMatch = part.text.match(/<think>(.*?)<\/think>/s);
+					if (thinkingMatch) {
+						if (!state.hasStartedThinking) {
 							yield {
 								type: "thinking_content",
-								data: thinkingText
-							};
-						} else {
-							// Stream as separate reasoning field
-							yield {
-								type: "real_thinking",
-								data: thinkingText
+								data: "<thinking>\n"
 							};
+							state.hasStartedThinking = true;
 						}
-					}
-					// Check if text content contains <think> tags (based on your original example)
-					else if (part.text && part.text.includes("<think>")) {
-						if (realThinkingAsContent) {
-							// Extract thinking content and convert to our format
-							const thinkingMatch = part.text.match(/<think>(.*?)<\/think>/s);
-							if (thinkingMatch) {
-								if (!hasStartedThinking) {
-									yield {
-										type: "thinking_content",
-										data: "<thinking>\n"
-									};
-									hasStartedThinking = true;
-								}
-
-								yield {
-									type: "thinking_content",
-									data: thinkingMatch[1]
-								};
-							}
 
-							// Extract any non-thinking coRecentent
-							const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
-							if (nonThinkingContent) {
-								if (hasStartedThinking && !hasClosedThinking) {
-									yield {
-										type: "thinking_content",
-										data: "\n</thinking>\n\n"
-									};
-									hasClosedThinking = true;
-								}
-								yield { type: "text", data: nonThinkingContent };
-							}
-						} else {
-							// Stream thinking as separate reasoning field
-							const thinkingMatch = part.text.match(/<think>(.*?)<\/think>/s);
-							if (thinkingMatch) {
-								yield {
-									type: "real_thinking",
-									data: thinkingMatch[1]
-								};
-							}
-
-							// Stream non-thinking content as regular text
-							const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
-							if (nonThinkingContent) {
-								yield { type: "text", data: nonThinkingContent };
-							}
-						}
+						yield {
+							type: "thinking_content",
+							data: thinkingMatch[1]
+						};
 					}
-					// Handle regular content - only if it's not a thinking part and doesn't contain <think> tags
-					else if (part.text && !part.thought && !part.text.includes("<think>")) {
-						// Close thinking tag before first real content if needed
-						if ((needsThinkingClose || (realThinkingAsContent && hasStartedThinking)) && !hasClosedThinking) {
+
+					// Extract any non-thinking coRecentent
+					const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
+					if (nonThinkingContent) {
+						if (state.hasStartedThinking && !state.hasClosedThinking) {
 							yield {
 								type: "thinking_content",
 								data: "\n</thinking>\n\n"
 							};
-							hasClosedThinking = true;
+							state.hasClosedThinking = true;
 						}
+						this.addModelText(state, nonThinkingContent);
+						yield { type: "text", data: nonThinkingContent };
+					}
+				} else {
+					// Stream thinking as separate reasoning field
+					const thinkingMatch = part.text.match(/<think>(.*?)<\/think>/s);
+					if (thinkingMatch) {
+						yield {
+							type: "real_thinking",
+							data: thinkingMatch[1]
+						};
+					}
 
-						yield { type: "text", data: part.text };
+					// Stream non-thinking content as regular text
+					const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
+					if (nonThinkingContent) {
+						this.addModelText(state, nonThinkingContent);
+						yield { type: "text", data: nonThinkingContent };
 					}
-					// Note: Skipping unknown part structures
 				}
 			}
+			// Handle regular content - only if it's not a thinking part and doesn't contain <think> tags
+			else if (part.text && !part.thought && !part.text.includes("<think>")) {
+				// Close thinking tag before first real content if needed
+				if ((needsThinkingClose || (realThinkingAsContent && state.hasStartedThinking)) && !state.hasClosedThinking) {
+					yield {
+						type: "thinking_content",
+						data: "\n</thinking>\n\n"
+					};
+					state.hasClosedThinking = true;
+				}
 
-			if (jsonData.response?.usageMetadata) {
-				const usage = jsonData.response.usageMetadata;
-				const usageData: UsageData = {
-					inputTokens: usage.promptTokenCount || 0,
-					outputTokens: usage.candidatesTokenCount || 0
-				};
-				yield {
-					type: "usage",
-					data: usageData
+				this.addModelText(state, part.text);
+				yield { type: "text", data: part.text };
+			}
+			// Handle function calls requested by the model
+			else if (part.functionCall) {
+				if ((needsThinkingClose || (realThinkingAsContent && state.hasStartedThinking)) && !state.hasClosedThinking) {
+					yield {
+						type: "thinking_content",
+						data: "\n</thinking>\n\n"
+					};
+					state.hasClosedThinking = true;
+				}
+
+				const toolCall: ToolCallData = {
+					id: part.functionCall.id || `${TOOL_CALL_ID_PREFIX}${crypto.randomUUID().replace(/-/g, "")}`,
+					name: part.functionCall.name,
+					arguments: JSON.stringify(part.functionCall.args || {}),
+					...(part.thoughtSignature && { thoughtSignature: part.thoughtSignature })
 				};
+
+				if (toolCall.thoughtSignature) {
+					await this.cacheThoughtSignature(toolCall.id, toolCall.thoughtSignature);
+				}
+
+				yield { type: "tool_call", data: toolCall };
 			}
+			// Render code execution and generated images as markdown, so every protocol can show them
+			else if (part.executableCode || part.codeExecutionResult || part.inlineData?.mimeType.startsWith("image/")) {
+				if ((needsThinkingClose || (realThinkingAsContent && state.hasStartedThinking)) && !state.hasClosedThinking) {
+					yield {
+						type: "thinking_content",
+						data: "\n</thinking>\n\n"
+					};
+					state.hasClosedThinking = true;
+				}
+
+				let rendered = "";
+				if (part.executableCode) {
+					rendered = renderExecutableCode(part.executableCode);
+				} else if (part.codeExecutionResult) {
+					rendered = renderCodeExecutionResult(part.codeExecutionResult);
+				} else if (part.inlineData) {
+					rendered = renderInlineImage(part.inlineData);
+				}
+				// Grounding segments only cover the model's text, not the rendered parts
+				state.citationAligner.addContent(rendered, false);
+				yield { type: "text", data: rendered };
+			}
+			// Note: Skipping unknown part structures
 		}
 	}
 
+	/**
+	 * Records text the model generated, which grounding segments point into.
+	 */
+	private addModelText(state: CandidateStreamState, text: string): void {
+		state.text += text;
+		state.citationAligner.addContent(text, true);
+	}
+
 	/**
 	 * Get a complete response from Gemini API (non-streaming).
 	 */
@@ -582,29 +975,10 @@ export class GeminiApiClient {
 		modelId: string,
 		systemPrompt: string,
 		messages: ChatMessage[],
-		options?: {
-			includeReasoning?: boolean;
-			thinkingBudget?: number;
-			generationConfig?: Record<string, any>;
-			safetySettings?: SafetySetting[];
-			systemInstruction?: string;
-		}
-	): Promise<{ content: string; usage?: UsageData }> {
+		options?: StreamContentOptions
+	): Promise<CompletionResult> {
 		try {
-			let content = "";
-			let usage: UsageData | undefined;
-
-			// Collect all chunks from the stream
-			for await (const chunk of this.streamContent(modelId, systemPrompt, messages, options)) {
-				if (chunk.type === "text" && typeof chunk.data === "string") {
-					content += chunk.data;
-				} else if (chunk.type === "usage" && typeof chunk.data === "object") {
-					usage = chunk.data as UsageData;
-				}
-				// Skip reasoning chunks for non-streaming responses
-			}
-
-			return { content, usage };
+			return await this.collectCompletion(this.streamContent(modelId, systemPrompt, messages, options));
 		} catch (error: unknown) {
 			// Handle rate limiting for non-streaming requests
 			if (this.autoSwitchHelper.isRateLimitError(error)) {
@@ -613,7 +987,8 @@ export class GeminiApiClient {
 					systemPrompt,
 					messages,
 					options,
-					this.streamContent.bind(this)
+					this.streamContent.bind(this),
+					this.collectCompletion.bind(this)
 				);
 				if (fallbackResult) {
 					return fallbackResult;
@@ -624,4 +999,122 @@ export class GeminiApiClient {
 			throw error;
 		}
 	}
+
+	/**
+	 * Collects a stream of chunks into a complete (non-streaming) result.
+	 */
+	async collectCompletion(stream: AsyncIterable<StreamChunk> | Iterable<StreamChunk>): Promise<CompletionResult> {
+		const choices = new Map<number, CompletionChoiceResult>();
+		let usage: UsageData | undefined;
+		let autoSwitched = false;
+		const citationAligners = new Map<number, CitationAligner>();
+
+		const getChoice = (index: number): CompletionChoiceResult => {
+			let choice = choices.get(index);
+			if (!choice) {
+				choice = { index, content: "" };
+				choices.set(index, choice);
+				citationAligners.set(index, new CitationAligner());
+			}
+			return choice;
+		};
+
+		for await (const chunk of stream) {
+			const index = chunk.candidateIndex ?? 0;
+			autoSwitched = autoSwitched || chunk.autoSwitched === true;
+			if (chunk.type === "text" && typeof chunk.data === "string") {
+				getChoice(index).content += chunk.data;
+				citationAligners.get(index)?.addContent(chunk.data, !chunk.autoSwitched);
+			} else if (chunk.type === "usage" && typeof chunk.data === "object") {
+				usage = chunk.data as UsageData;
+			} else if (chunk.type === "tool_call" && typeof chunk.data === "object") {
+				const toolCall = chunk.data as ToolCallData;
+				const choice = getChoice(index);
+				choice.toolCalls = choice.toolCalls || [];
+				choice.toolCalls.push({
+					id: toolCall.id,
+					type: "function",
+					function: { name: toolCall.name, arguments: toolCall.arguments },
+					...(toolCall.thoughtSignature && {
+						extra_content: { google: { thought_signature: toolCall.thoughtSignature } }
+					})
+				});
+			} else if (chunk.type === "finish_reason" && typeof chunk.data === "object") {
+				getChoice(index).finishReason = (chunk.data as FinishReasonData).reason;
+			} else if (chunk.type === "logprobs" && typeof chunk.data === "object") {
+				const choice = getChoice(index);
+				choice.logprobs = [...(choice.logprobs || []), ...(chunk.data as LogprobsData).content];
+			} else if (chunk.type === "real_thinking" && typeof chunk.data === "string") {
+				const choice = getChoice(index);
+				choice.reasoning = (choice.reasoning || "") + chunk.data;
+			} else if (chunk.type === "grounding" && typeof chunk.data === "object") {
+				// Grounding covers the whole candidate text, so the latest report replaces earlier ones
+				const choice = getChoice(index);
+				choice.annotations = citationAligners.get(index)?.align((chunk.data as GroundingData).annotations);
+			} else if (chunk.type === "safety_ratings" && typeof chunk.data === "object") {
+				getChoice(index).safetyRatings = (chunk.data as SafetyRatingsData).safetyRatings;
+			}
+			// Skip fake reasoning chunks, they only exist to show progress while streaming
+		}
+
+		// Always return at least one choice, even if the model produced no output
+		getChoice(0);
+
+		return {
+			choices: [...choices.values()].sort((a, b) => a.index - b.index),
+			usage,
+			...(autoSwitched && { autoSwitched })
+		};
+	}
+
+	/**
+	 * Generates embeddings for one or more inputs, batching requests to stay within Gemini's limits.
+	 * @returns One embedding vector per input, in input order
+	 */
+	async embedContents(
+		modelId: string,
+		inputs: string[],
+		options?: { outputDimensionality?: number; taskType?: string }
+	): Promise<number[][]> {
+		await this.authManager.initializeAuth();
+		const projectId = await this.discoverProjectId();
+
+		const toEmbedRequest = (text: string) => ({
+			model: `models/${modelId}`,
+			content: { parts: [{ text }] },
+			...(options?.outputDimensionality && { outputDimensionality: options.outputDimensionality }),
+			...(options?.taskType && { taskType: options.taskType })
+		});
+
+		// A single input uses embedContent, anything larger goes through batchEmbedContents
+		if (inputs.length === 1) {
+			const result = (await this.authManager.callEndpoint("embedContent", {
+				model: modelId,
+				project: projectId,
+				request: toEmbedRequest(inputs[0])
+			})) as { response?: GeminiEmbedResponse } & GeminiEmbedResponse;
+			const embedding = (result.response ?? result).embedding;
+			if (!embedding) {
+				throw new Error("Embedding response did not contain an embedding");
+			}
+			return [embedding.values];
+		}
+
+		const vectors: number[][] = [];
+		for (let start = 0; start < inputs.length; start += EMBEDDING_BATCH_SIZE) {
+			const batch = inputs.slice(start, start + EMBEDDING_BATCH_SIZE);
+			const result = (await this.authManager.callEndpoint("batchEmbedContents", {
+				model: modelId,
+				project: projectId,
+				request: { requests: batch.map(toEmbedRequest) }
+			})) as { response?: GeminiEmbedResponse } & GeminiEmbedResponse;
+			const embeddings = (result.response ?? result).embeddings;
+			if (!embeddings || embeddings.length !== batch.length) {
+				throw new Error("Batch embedding response did not contain one embedding per input");
+			}
+			vectors.push(...embeddings.map((embedding) => embedding.values));
+		}
+
+		return vectors;
+	}
 }
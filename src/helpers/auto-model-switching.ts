@@ -1,5 +1,6 @@
 import { AUTO_SWITCH_MODEL_MAP, RATE_LIMIT_STATUS_CODES } from "../constants";
-import { Env, ChatMessage, UsageData, StreamChunk } from "../types";
+import { Env, ChatMessage, StreamChunk, StreamContentOptions, CompletionResult } from "../types";
+import { GeminiApiError } from "../utils/error-utils";
 
 /**
  * Helper class for handling automatic model switching on rate limit errors.
@@ -28,13 +29,10 @@ export class AutoModelSwitchingHelper {
 	}
 
 	/**
-	 * Checks if the error message indicates a rate limit error that should trigger auto switching.
+	 * Checks if the error is an upstream rate limit error that should trigger auto switching.
 	 */
 	isRateLimitError(error: unknown): boolean {
-		return (
-			error instanceof Error &&
-			(error.message.includes("Stream request failed: 429") || error.message.includes("Stream request failed: 503"))
-		);
+		return error instanceof GeminiApiError && this.isRateLimitStatus(error.status);
 	}
 
 	/**
@@ -60,28 +58,22 @@ export class AutoModelSwitchingHelper {
 
 	/**
 	 * Handles rate limit fallback for non-streaming requests.
-	 * This method requires a stream content function to perform the actual retry.
+	 * This method requires a stream content function to perform the actual retry
+	 * and a collect function to turn the resulting stream into a complete result.
 	 */
 	async handleNonStreamingFallback(
 		originalModel: string,
 		systemPrompt: string,
 		messages: ChatMessage[],
-		options:
-			| {
-					includeReasoning?: boolean;
-					thinkingBudget?: number;
-			  }
-			| undefined,
+		options: StreamContentOptions | undefined,
 		streamContentFn: (
 			modelId: string,
 			systemPrompt: string,
 			messages: ChatMessage[],
-			options?: {
-				includeReasoning?: boolean;
-				thinkingBudget?: number;
-			}
-		) => AsyncGenerator<StreamChunk>
-	): Promise<{ content: string; usage?: UsageData } | null> {
+			options?: StreamContentOptions
+		) => AsyncGenerator<StreamChunk>,
+		collectFn: (stream: AsyncGenerator<StreamChunk>) => Promise<CompletionResult>
+	): Promise<CompletionResult | null> {
 		const fallbackModel = this.getFallbackModel(originalModel);
 		if (!fallbackModel || !this.isEnabled()) {
 			return null;
@@ -89,21 +81,13 @@ export class AutoModelSwitchingHelper {
 
 		console.log(`Got rate limit error for model ${originalModel}, switching to fallback model: ${fallbackModel}`);
 
-		let content = "";
-		let usage: UsageData | undefined;
+		const notification = this.createSwitchNotification(originalModel, fallbackModel);
+		const fallbackStream = async function* (): AsyncGenerator<StreamChunk> {
+			// Add notification about model switch
+			yield { type: "text", data: notification, autoSwitched: true };
+			yield* streamContentFn(fallbackModel, systemPrompt, messages, options);
+		};
 
-		// Add notification about model switch
-		content += this.createSwitchNotification(originalModel, fallbackModel);
-
-		// Collect all chunks from the stream with fallback model
-		for await (const chunk of streamContentFn(fallbackModel, systemPrompt, messages, options)) {
-			if (chunk.type === "text" && typeof chunk.data === "string") {
-				content += chunk.data;
-			} else if (chunk.type === "usage" && typeof chunk.data === "object") {
-				usage = chunk.data as UsageData;
-			}
-		}
-
-		return { content, usage };
+		return collectFn(fallbackStream());
 	}
 }
@@ -1,5 +1,39 @@
 import { geminiCliModels } from "../models";
-import { DEFAULT_THINKING_BUDGET, DEFAULT_TEMPERATURE } from "../constants";
+import {
+	DEFAULT_THINKING_BUDGET,
+	DEFAULT_TEMPERATURE,
+	REASONING_EFFORT_BUDGETS,
+	HARM_CATEGORIES,
+	SAFETY_PRESET_THRESHOLDS
+} from "../constants";
+import { ReasoningEffort, SafetyPreset, SafetySetting } from "../types";
+
+// Sampling parameters in Gemini generationConfig naming
+export interface SamplingParameters {
+	temperature?: number;
+	topP?: number;
+	topK?: number;
+	presencePenalty?: number;
+	frequencyPenalty?: number;
+	seed?: number;
+}
+
+export interface SamplingValidationResult {
+	isValid: boolean;
+	error?: string;
+	param?: string; // Request parameter the error refers to
+	warnings: string[]; // Parameters that were accepted but have no effect on Gemini
+}
+
+// Allowed ranges for sampling parameters, as documented for the Gemini API
+const SAMPLING_RANGES: Record<string, { min: number; max: number; integer?: boolean }> = {
+	temperature: { min: 0, max: 2 },
+	topP: { min: 0, max: 1 },
+	topK: { min: 1, max: Number.MAX_SAFE_INTEGER, integer: true },
+	presencePenalty: { min: -2, max: 2 },
+	frequencyPenalty: { min: -2, max: 2 },
+	seed: { min: -2147483648, max: 2147483647, integer: true } // Gemini seeds are 32-bit integers
+};
 
 /**
  * Helper class to validate and correct generation configurations for different Gemini models.
@@ -8,6 +42,7 @@ import { DEFAULT_THINKING_BUDGET, DEFAULT_TEMPERATURE } from "../constants";
 export class GenerationConfigValidator {
 	/**
 	 * Validates and corrects the thinking budget for a specific model.
+	 * Budgets outside the model's supported range are clamped to it; -1 (dynamic allocation) is always allowed.
 	 * @param modelId - The Gemini model ID
 	 * @param thinkingBudget - The requested thinking budget
 	 * @returns The corrected thinking budget
@@ -17,25 +52,124 @@ export class GenerationConfigValidator {
 
 		// For thinking models, validate the budget
 		if (modelInfo?.thinking) {
-			// Gemini 2.5 Pro and Flash don't support thinking_budget: 0
-			// They require -1 (dynamic allocation) or positive numbers
-			if (thinkingBudget === 0) {
-				console.log(`[GenerationConfig] Model '${modelId}' doesn't support thinking_budget: 0, using -1 instead`);
-				return DEFAULT_THINKING_BUDGET; // -1
+			if (thinkingBudget === DEFAULT_THINKING_BUDGET) {
+				return thinkingBudget;
 			}
 
-			// Validate positive budget values (optional: add upper limits if needed)
-			if (thinkingBudget < -1) {
+			if (!Number.isInteger(thinkingBudget) || thinkingBudget < -1) {
 				console.log(
 					`[GenerationConfig] Invalid thinking_budget: ${thinkingBudget} for model '${modelId}', using -1 instead`
 				);
 				return DEFAULT_THINKING_BUDGET; // -1
 			}
+
+			// Models that cannot disable thinking (e.g. Gemini 2.5 Pro) get their smallest budget instead of 0
+			const minBudget = modelInfo.minThinkingBudget ?? 0;
+			const maxBudget = modelInfo.maxThinkingBudget ?? Number.MAX_SAFE_INTEGER;
+			if (thinkingBudget < minBudget || thinkingBudget > maxBudget) {
+				const clampedBudget = Math.min(Math.max(thinkingBudget, minBudget), maxBudget);
+				console.log(
+					`[GenerationConfig] thinking_budget ${thinkingBudget} is outside ${minBudget}-${maxBudget} for model '${modelId}', using ${clampedBudget} instead`
+				);
+				return clampedBudget;
+			}
 		}
 
 		return thinkingBudget;
 	}
 
+	/**
+	 * Checks whether a value is a supported OpenAI reasoning_effort level.
+	 */
+	static isReasoningEffort(value: unknown): value is ReasoningEffort {
+		return typeof value === "string" && Object.keys(REASONING_EFFORT_BUDGETS).includes(value);
+	}
+
+	/**
+	 * Maps an OpenAI reasoning_effort level to a thinking budget within the model's supported range.
+	 * @param modelId - The Gemini model ID
+	 * @param effort - The requested reasoning effort
+	 * @returns The thinking budget for the effort level
+	 */
+	static thinkingBudgetForEffort(modelId: string, effort: ReasoningEffort): number {
+		return this.validateThinkingBudget(modelId, REASONING_EFFORT_BUDGETS[effort]);
+	}
+
+	/**
+	 * Checks whether a value is a supported safety_preset.
+	 */
+	static isSafetyPreset(value: unknown): value is SafetyPreset {
+		return typeof value === "string" && Object.keys(SAFETY_PRESET_THRESHOLDS).includes(value);
+	}
+
+	/**
+	 * Builds Gemini safety settings from a safety preset and explicit per-category settings.
+	 * @param preset - Threshold applied to every harm category, if any
+	 * @param safetySettings - Explicit settings, which take precedence over the preset for their category
+	 * @returns The safety settings to send, or undefined to use Gemini's defaults
+	 */
+	static createSafetySettings(
+		preset: SafetyPreset | undefined,
+		safetySettings: SafetySetting[] | undefined
+	): SafetySetting[] | undefined {
+		if (!preset) {
+			return safetySettings;
+		}
+
+		const threshold = SAFETY_PRESET_THRESHOLDS[preset];
+		const explicitCategories = new Set((safetySettings || []).map((setting) => setting.category));
+		return [
+			...HARM_CATEGORIES.filter((category) => !explicitCategories.has(category)).map((category) => ({
+				category,
+				threshold
+			})),
+			...(safetySettings || [])
+		];
+	}
+
+	/**
+	 * Validates sampling parameters before they are forwarded to Gemini.
+	 * @param params - Sampling parameters in Gemini naming
+	 * @param unsupported - Request parameters Gemini has no equivalent for, keyed by their request name
+	 * @returns An error for out-of-range values, and warnings for parameters that will be ignored
+	 */
+	static validateSamplingParameters(
+		params: SamplingParameters,
+		unsupported: Record<string, unknown> = {}
+	): SamplingValidationResult {
+		for (const [key, value] of Object.entries(params)) {
+			const range = SAMPLING_RANGES[key];
+			if (value === undefined || !range) {
+				continue;
+			}
+			// Report the snake_case name clients send (e.g. presence_penalty)
+			const name = key.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`);
+			if (typeof value !== "number" || Number.isNaN(value)) {
+				return { isValid: false, error: `${name} must be a number`, param: name, warnings: [] };
+			}
+			if (range.integer && !Number.isInteger(value)) {
+				return { isValid: false, error: `${name} must be an integer`, param: name, warnings: [] };
+			}
+			if (value < range.min || value > range.max) {
+				return {
+					isValid: false,
+					error: `${name} must be between ${range.min} and ${range.max}, got ${value}`,
+					param: name,
+					warnings: []
+				};
+			}
+		}
+
+		const warnings = Object.entries(unsupported)
+			.filter(([, value]) => value !== undefined && value !== null)
+			.map(([name]) => `${name} is not supported by Gemini and was ignored`);
+		for (const warning of warnings) {
+			console.log(`[GenerationConfig] ${warning}`);
+		}
+
+		return { isValid: true, warnings };
+	}
+
 	/**
 	 * Creates a validated generation config for a specific model.
 	 * @param modelId - The Gemini model ID
@@ -48,7 +182,7 @@ export class GenerationConfigValidator {
 		modelId: string,
 		options: { 
 			thinkingBudget?: number;
-			generationConfig?: Record<string, any>; 
+			generationConfig?: Record<string, any>;
 		} = {},
 		isRealThinkingEnabled: boolean,
 		includeReasoning: boolean
@@ -77,10 +211,10 @@ export class GenerationConfigValidator {
 				};
 				console.log(`[GenerationConfig] Real thinking enabled for '${modelId}' with budget: ${validatedBudget}`);
 			} else {
-				// For thinking models, always use validated budget (can't use 0)
-				// Control thinking visibility with includeThoughts instead
+				// The budget still limits how much the model thinks,
+				// only the thinking visibility is controlled with includeThoughts
 				generationConfig.thinkingConfig = {
-					thinkingBudget: this.validateThinkingBudget(modelId, DEFAULT_THINKING_BUDGET),
+					thinkingBudget: validatedBudget,
 					includeThoughts: false // Disable thinking visibility in response
 				};
 			}
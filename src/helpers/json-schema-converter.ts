@@ -0,0 +1,317 @@
+// Schema keywords Gemini's OpenAPI-based schema understands; everything else is dropped
+const SUPPORTED_SCHEMA_KEYS = [
+	"type",
+	"format",
+	"title",
+	"description",
+	"nullable",
+	"enum",
+	"items",
+	"properties",
+	"required",
+	"propertyOrdering",
+	"anyOf",
+	"minItems",
+	"maxItems",
+	"minimum",
+	"maximum",
+	"minLength",
+	"maxLength",
+	"pattern",
+	"minProperties",
+	"maxProperties"
+];
+
+// Keywords that are converted explicitly and must never be copied through verbatim
+const CONVERTED_SCHEMA_KEYS = ["type", "format", "enum", "anyOf", "properties", "items"];
+
+// Formats Gemini accepts; others such as "uri" or "email" make it reject the request
+const SUPPORTED_FORMATS = ["enum", "date-time", "int32", "int64", "float", "double"];
+
+type JsonSchema = Record<string, unknown>;
+
+export interface SchemaConversionOptions {
+	lenient?: boolean; // Drop constructs Gemini cannot express instead of rejecting the schema
+}
+
+export interface SchemaConversionResult {
+	isValid: boolean;
+	error?: string;
+	schema?: JsonSchema;
+}
+
+/**
+ * Helper class to convert JSON Schema (as used by OpenAI structured outputs and tools)
+ * into the OpenAPI schema subset accepted by Gemini's responseSchema and function declarations.
+ */
+export class JsonSchemaConverter {
+	/**
+	 * Converts a JSON Schema into a Gemini-compatible schema.
+	 * Structured output needs the exact schema, so by default constructs Gemini cannot express are errors.
+	 * Tool parameters are converted leniently, dropping those constructs, so existing tool definitions keep working.
+	 * @param schema - The JSON Schema to convert
+	 * @param options - Conversion options
+	 * @returns The converted schema, or an error describing why it cannot be expressed
+	 */
+	static convert(schema: unknown, options: SchemaConversionOptions = {}): SchemaConversionResult {
+		if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+			return { isValid: false, error: "Schema must be a JSON object" };
+		}
+
+		const root = schema as JsonSchema;
+		const definitions = {
+			...((root.definitions as JsonSchema) || {}),
+			...((root.$defs as JsonSchema) || {})
+		};
+
+		try {
+			return { isValid: true, schema: this.convertNode(root, definitions, [], "#", !!options.lenient) };
+		} catch (error: unknown) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			return { isValid: false, error: errorMessage };
+		}
+	}
+
+	/**
+	 * Recursively converts a single schema node.
+	 * @param node - The schema node
+	 * @param definitions - Shared $defs/definitions used to inline $ref
+	 * @param refStack - References currently being inlined, used to detect recursion
+	 * @param path - JSON pointer-like path used in error messages
+	 * @param lenient - Whether unsupported constructs are dropped instead of rejected
+	 */
+	private static convertNode(
+		node: JsonSchema,
+		definitions: JsonSchema,
+		refStack: string[],
+		path: string,
+		lenient: boolean
+	): JsonSchema {
+		if (typeof node.$ref === "string") {
+			return this.inlineRef(node, definitions, refStack, path, lenient);
+		}
+
+		if (Array.isArray(node.allOf)) {
+			return this.convertNode(this.mergeAllOf(node, definitions, path, lenient), definitions, refStack, path, lenient);
+		}
+
+		const result: JsonSchema = {};
+
+		// Type unions such as ["string", "null"] become nullable types or anyOf
+		if (Array.isArray(node.type)) {
+			const types = node.type as string[];
+			const nonNullTypes = types.filter((type) => type !== "null");
+			if (nonNullTypes.length === 0) {
+				this.unsupported(lenient, `${path}: a schema that only allows null cannot be expressed`);
+				return { ...this.copySupportedKeys(node, {}), type: "string", nullable: true };
+			}
+			if (types.includes("null")) {
+				result.nullable = true;
+			}
+			if (nonNullTypes.length === 1) {
+				result.type = nonNullTypes[0];
+			} else {
+				result.anyOf = nonNullTypes.map((type, i) =>
+					this.convertNode({ ...node, type }, definitions, refStack, `${path}/type/${i}`, lenient)
+				);
+				return result;
+			}
+		} else if (node.type === "null") {
+			this.unsupported(lenient, `${path}: a schema that only allows null cannot be expressed`);
+			return { ...this.copySupportedKeys(node, {}), type: "string", nullable: true };
+		} else if (node.type !== undefined) {
+			result.type = node.type;
+		}
+
+		// const is expressed as a single-value enum
+		if (node.const !== undefined) {
+			if (typeof node.const === "string") {
+				result.type = result.type || "string";
+				result.enum = [node.const];
+			} else {
+				this.unsupported(lenient, `${path}: const is only supported for string values`);
+			}
+		}
+
+		if (Array.isArray(node.enum)) {
+			const values = node.enum as unknown[];
+			const nonNullValues = values.filter((value) => value !== null);
+			if (nonNullValues.length < values.length) {
+				result.nullable = true;
+			}
+			if (nonNullValues.every((value) => typeof value === "string")) {
+				result.type = result.type || "string";
+				result.enum = nonNullValues;
+			} else {
+				this.unsupported(lenient, `${path}: enum is only supported for string values`);
+			}
+		}
+
+		if (node.format !== undefined) {
+			if (SUPPORTED_FORMATS.includes(node.format as string)) {
+				result.format = node.format;
+			} else {
+				this.unsupported(lenient, `${path}: format '${node.format}' is not supported`);
+			}
+		}
+
+		// oneOf has no Gemini equivalent, anyOf is the closest match
+		const alternatives = (node.anyOf || node.oneOf) as JsonSchema[] | undefined;
+		if (Array.isArray(alternatives)) {
+			const nonNullAlternatives = alternatives.filter((alt) => alt.type !== "null");
+			if (nonNullAlternatives.length < alternatives.length) {
+				result.nullable = true;
+			}
+			const converted = nonNullAlternatives.map((alt, i) =>
+				this.convertNode(alt, definitions, refStack, `${path}/anyOf/${i}`, lenient)
+			);
+			if (converted.length === 1) {
+				Object.assign(result, converted[0]);
+			} else if (converted.length > 1) {
+				result.anyOf = converted;
+			}
+		}
+
+		if (typeof node.properties === "object" && node.properties !== null) {
+			// Leniently converted properties that can only be null carry no information, so they are dropped
+			const properties = Object.entries(node.properties as JsonSchema).filter(
+				([, propSchema]) => !(lenient && this.isNullOnly(propSchema as JsonSchema))
+			);
+			result.properties = Object.fromEntries(
+				properties.map(([name, propSchema]) => [
+					name,
+					this.convertNode(propSchema as JsonSchema, definitions, refStack, `${path}/properties/${name}`, lenient)
+				])
+			);
+			if (Array.isArray(node.required)) {
+				result.required = (node.required as string[]).filter((name) => name in (result.properties as JsonSchema));
+			}
+		}
+
+		// Gemini objects need declared properties, so free-form maps cannot be expressed
+		const isMap =
+			(typeof node.additionalProperties === "object" && node.additionalProperties !== null) ||
+			(node.additionalProperties === true && node.type === "object");
+		if (isMap && !node.properties) {
+			this.unsupported(lenient, `${path}: objects with only additionalProperties (maps) are not supported`);
+		}
+
+		if (node.items !== undefined) {
+			if (Array.isArray(node.items)) {
+				this.unsupported(lenient, `${path}: tuple-style items arrays are not supported`);
+				// Tuple entries become alternatives for every item
+				const tupleItems = node.items as JsonSchema[];
+				if (tupleItems.length) {
+					result.items = this.convertNode(
+						tupleItems.length === 1 ? tupleItems[0] : { anyOf: tupleItems },
+						definitions,
+						refStack,
+						`${path}/items`,
+						lenient
+					);
+				}
+			} else {
+				result.items = this.convertNode(node.items as JsonSchema, definitions, refStack, `${path}/items`, lenient);
+			}
+		}
+
+		return this.copySupportedKeys(node, result);
+	}
+
+	/**
+	 * Copies the supported keywords that need no conversion from a schema node into the result.
+	 */
+	private static copySupportedKeys(node: JsonSchema, result: JsonSchema): JsonSchema {
+		for (const [key, value] of Object.entries(node)) {
+			if (SUPPORTED_SCHEMA_KEYS.includes(key) && !CONVERTED_SCHEMA_KEYS.includes(key) && !(key in result)) {
+				result[key] = value;
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Rejects a construct Gemini cannot express, unless converting leniently, in which case the caller drops it.
+	 */
+	private static unsupported(lenient: boolean, message: string): void {
+		if (!lenient) {
+			throw new Error(message);
+		}
+	}
+
+	/**
+	 * Checks whether a schema only allows null.
+	 */
+	private static isNullOnly(node: JsonSchema): boolean {
+		return node.type === "null" || (Array.isArray(node.type) && node.type.every((type) => type === "null"));
+	}
+
+	/**
+	 * Inlines a local $ref ("#/$defs/Name" or "#/definitions/Name").
+	 */
+	private static inlineRef(
+		node: JsonSchema,
+		definitions: JsonSchema,
+		refStack: string[],
+		path: string,
+		lenient: boolean
+	): JsonSchema {
+		const ref = node.$ref as string;
+		// Sibling keywords (e.g. description) override the referenced schema
+		const siblings = { ...node };
+		delete siblings.$ref;
+
+		const match = ref.match(/^#\/(?:\$defs|definitions)\/(.+)$/);
+		const target = match ? definitions[match[1]] : undefined;
+		let error: string | undefined;
+		if (!match) {
+			error = `${path}: only local $ref to $defs or definitions is supported (got '${ref}')`;
+		} else if (refStack.includes(ref)) {
+			error = `${path}: recursive schema reference '${ref}' cannot be expressed`;
+		} else if (typeof target !== "object" || target === null) {
+			error = `${path}: unresolved $ref '${ref}'`;
+		}
+		if (error) {
+			// A reference that cannot be inlined is left as an object without declared properties
+			this.unsupported(lenient, error);
+			return this.convertNode({ type: "object", ...siblings }, definitions, refStack, path, lenient);
+		}
+
+		return this.convertNode({ ...(target as JsonSchema), ...siblings }, definitions, [...refStack, ref], path, lenient);
+	}
+
+	/**
+	 * Merges allOf sub-schemas into a single object schema.
+	 */
+	private static mergeAllOf(node: JsonSchema, definitions: JsonSchema, path: string, lenient: boolean): JsonSchema {
+		const merged: JsonSchema = { ...node };
+		delete merged.allOf;
+
+		for (let subSchema of node.allOf as JsonSchema[]) {
+			if (typeof subSchema !== "object" || subSchema === null) {
+				throw new Error(`${path}: invalid allOf entry`);
+			}
+			// Resolve referenced sub-schemas first so their properties can be merged
+			if (typeof subSchema.$ref === "string") {
+				const name = subSchema.$ref.replace(/^#\/(?:\$defs|definitions)\//, "");
+				const target = definitions[name];
+				if (typeof target !== "object" || target === null) {
+					this.unsupported(lenient, `${path}: unresolved $ref '${subSchema.$ref}'`);
+					continue;
+				}
+				subSchema = target as JsonSchema;
+			}
+			for (const [key, value] of Object.entries(subSchema)) {
+				if (key === "properties") {
+					merged.properties = { ...((merged.properties as JsonSchema) || {}), ...(value as JsonSchema) };
+				} else if (key === "required") {
+					merged.required = [...new Set([...((merged.required as string[]) || []), ...(value as string[])])];
+				} else if (!(key in merged)) {
+					merged[key] = value;
+				}
+			}
+		}
+
+		return merged;
+	}
+}
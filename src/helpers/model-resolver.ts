@@ -0,0 +1,106 @@
+import { Env, ModelAlias, ResolvedModel } from "../types";
+import { geminiCliModels, getAllModelIds } from "../models";
+import { MODEL_SUFFIX_SEPARATOR, SEARCH_MODEL_SUFFIX, THINKING_MODEL_SUFFIX_PREFIX } from "../constants";
+import { GenerationConfigValidator } from "./generation-config-validator";
+
+/**
+ * Helper class for resolving requested model names to Gemini models.
+ * Names can be aliases from the MODEL_ALIASES environment variable (e.g. "gpt-4o"),
+ * and may carry suffixes that adjust the request, e.g. "gemini-2.5-pro:thinking-high" or "gemini-2.5-flash:search".
+ */
+export class ModelResolver {
+	private aliases: Record<string, ModelAlias>;
+
+	constructor(env: Env) {
+		this.aliases = parseAliases(env.MODEL_ALIASES);
+	}
+
+	/**
+	 * Resolves a requested model name, or returns null if it does not name a supported model.
+	 */
+	resolve(name: string): ResolvedModel | null {
+		const [baseName, ...suffixes] = name.split(MODEL_SUFFIX_SEPARATOR);
+		const alias = this.aliases[baseName];
+
+		// Alias targets may carry suffixes of their own, which the requested suffixes extend
+		const [model, ...aliasSuffixes] = alias ? alias.model.split(MODEL_SUFFIX_SEPARATOR) : [baseName];
+		if (!(model in geminiCliModels)) {
+			return null;
+		}
+
+		const resolved: ResolvedModel = { model, thinkingBudget: alias?.thinkingBudget, search: false };
+		for (const suffix of [...aliasSuffixes, ...suffixes]) {
+			const effort = suffix.startsWith(THINKING_MODEL_SUFFIX_PREFIX)
+				? suffix.slice(THINKING_MODEL_SUFFIX_PREFIX.length)
+				: undefined;
+			if (suffix === SEARCH_MODEL_SUFFIX) {
+				resolved.search = true;
+			} else if (GenerationConfigValidator.isReasoningEffort(effort)) {
+				resolved.thinkingBudget = GenerationConfigValidator.thinkingBudgetForEffort(model, effort);
+			} else {
+				return null;
+			}
+		}
+
+		if (resolved.thinkingBudget !== undefined) {
+			resolved.thinkingBudget = GenerationConfigValidator.validateThinkingBudget(model, resolved.thinkingBudget);
+		}
+		return resolved;
+	}
+
+	/**
+	 * Error message for a model name that does not resolve, listing the Gemini models and configured aliases.
+	 */
+	unknownModelMessage(name: string | undefined): string {
+		const available = [...getAllModelIds(), ...Object.keys(this.getAliases())];
+		return `Model '${name}' not found. Available models: ${available.join(", ")}`;
+	}
+
+	/**
+	 * The configured aliases that resolve to a supported model, keyed by alias name.
+	 */
+	getAliases(): Record<string, ResolvedModel> {
+		return Object.fromEntries(
+			Object.keys(this.aliases)
+				.map((name) => [name, this.resolve(name)] as const)
+				.filter((entry): entry is readonly [string, ResolvedModel] => entry[1] !== null)
+		);
+	}
+}
+
+/**
+ * Parses the MODEL_ALIASES JSON object. Values are either a target model name
+ * or an object with the target model and a default thinking budget.
+ */
+function parseAliases(json: string | undefined): Record<string, ModelAlias> {
+	if (!json) {
+		return {};
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(json);
+	} catch (parseError) {
+		console.error("Failed to parse MODEL_ALIASES, no aliases will be available:", parseError);
+		return {};
+	}
+	if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+		console.error("MODEL_ALIASES must be a JSON object, no aliases will be available");
+		return {};
+	}
+
+	const aliases: Record<string, ModelAlias> = {};
+	for (const [name, value] of Object.entries(parsed)) {
+		if (typeof value === "string") {
+			aliases[name] = { model: value };
+		} else if (typeof value === "object" && value !== null && typeof value.model === "string") {
+			aliases[name] = {
+				model: value.model,
+				thinkingBudget: typeof value.thinkingBudget === "number" ? value.thinkingBudget : undefined
+			};
+		} else {
+			console.error(`Ignoring invalid MODEL_ALIASES entry '${name}'`);
+		}
+	}
+	return aliases;
+}
@@ -0,0 +1,167 @@
+import {
+	KV_REMOTE_IMAGE_PREFIX,
+	REMOTE_IMAGE_CACHE_TTL,
+	REMOTE_IMAGE_FETCH_TIMEOUT_MS,
+	MAX_REMOTE_IMAGE_BYTES
+} from "../constants";
+import { Env, ChatMessage, MessageContent } from "../types";
+import { detectImageMimeType } from "../utils/image-utils";
+import { InvalidRequestError } from "../utils/error-utils";
+
+/**
+ * Helper class for inlining remote images, since Gemini does not accept arbitrary web URLs as file data.
+ * Images are downloaded, their type is detected from the image data, and the resulting data URLs
+ * are cached in KV by URL hash so images repeated in every turn of a conversation are fetched once.
+ * Images that cannot be used are the client's error, so failures are InvalidRequestErrors naming the URL.
+ */
+export class RemoteImageFetcher {
+	private env: Env;
+
+	constructor(env: Env) {
+		this.env = env;
+	}
+
+	/**
+	 * Returns the messages with every http(s) image URL replaced by a base64 data URL.
+	 */
+	async inlineRemoteImages(messages: ChatMessage[]): Promise<ChatMessage[]> {
+		const pending = new Map<string, Promise<string>>();
+		const resolveUrl = (url: string) => {
+			let dataUrl = pending.get(url);
+			if (!dataUrl) {
+				dataUrl = this.toDataUrl(url);
+				pending.set(url, dataUrl);
+			}
+			return dataUrl;
+		};
+
+		return Promise.all(
+			messages.map(async (msg) => {
+				if (!Array.isArray(msg.content) || !msg.content.some(isRemoteImage)) {
+					return msg;
+				}
+
+				const content = await Promise.all(
+					msg.content.map(async (part): Promise<MessageContent> => {
+						if (!isRemoteImage(part) || !part.image_url) {
+							return part;
+						}
+						return { ...part, image_url: { ...part.image_url, url: await resolveUrl(part.image_url.url) } };
+					})
+				);
+				return { ...msg, content };
+			})
+		);
+	}
+
+	/**
+	 * Downloads an image, or loads it from the cache, and returns it as a data URL.
+	 */
+	async toDataUrl(url: string): Promise<string> {
+		const cacheKey = `${KV_REMOTE_IMAGE_PREFIX}${await hashUrl(url)}`;
+
+		try {
+			const cached = await this.env.GEMINI_CLI_KV.get(cacheKey);
+			if (cached) {
+				return cached;
+			}
+		} catch (kvError) {
+			console.error("Failed to load cached image from KV storage:", kvError);
+		}
+
+		const bytes = await this.download(url);
+		const mimeType = detectImageMimeType(bytes);
+		if (!mimeType) {
+			throw new InvalidRequestError(`Image at ${url} is not a supported image format (jpeg, png, gif or webp)`);
+		}
+		const dataUrl = `data:${mimeType};base64,${bytesToBase64(bytes)}`;
+
+		try {
+			await this.env.GEMINI_CLI_KV.put(cacheKey, dataUrl, { expirationTtl: REMOTE_IMAGE_CACHE_TTL });
+		} catch (kvError) {
+			console.error("Failed to cache image in KV storage:", kvError);
+			// Don't throw here, the image was downloaded and can still be used
+		}
+
+		return dataUrl;
+	}
+
+	/**
+	 * Downloads an image, enforcing the size limit and the request timeout.
+	 */
+	private async download(url: string): Promise<Uint8Array> {
+		const controller = new AbortController();
+		const timeout = setTimeout(() => controller.abort(), REMOTE_IMAGE_FETCH_TIMEOUT_MS);
+		const maxSizeMb = MAX_REMOTE_IMAGE_BYTES / 1024 / 1024;
+
+		try {
+			const response = await fetch(url, { signal: controller.signal });
+			if (!response.ok || !response.body) {
+				throw new InvalidRequestError(`Failed to fetch image from ${url}: ${response.status} ${response.statusText}`);
+			}
+
+			const contentLength = Number(response.headers.get("Content-Length"));
+			if (contentLength > MAX_REMOTE_IMAGE_BYTES) {
+				throw new InvalidRequestError(`Image at ${url} is too large. Maximum size is ${maxSizeMb} MB`);
+			}
+
+			// Content-Length may be missing or wrong, so the size is also checked while reading
+			const chunks: Uint8Array[] = [];
+			let size = 0;
+			const reader = response.body.getReader();
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) {
+					break;
+				}
+				size += value.length;
+				if (size > MAX_REMOTE_IMAGE_BYTES) {
+					await reader.cancel();
+					throw new InvalidRequestError(`Image at ${url} is too large. Maximum size is ${maxSizeMb} MB`);
+				}
+				chunks.push(value);
+			}
+
+			const bytes = new Uint8Array(size);
+			let offset = 0;
+			for (const chunk of chunks) {
+				bytes.set(chunk, offset);
+				offset += chunk.length;
+			}
+			return bytes;
+		} catch (error: unknown) {
+			if (controller.signal.aborted) {
+				throw new InvalidRequestError(
+					`Timed out fetching image from ${url} after ${REMOTE_IMAGE_FETCH_TIMEOUT_MS / 1000} seconds`
+				);
+			}
+			if (error instanceof InvalidRequestError) {
+				throw error;
+			}
+			// Network failures such as an unresolvable host
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			throw new InvalidRequestError(`Failed to fetch image from ${url}: ${errorMessage}`);
+		} finally {
+			clearTimeout(timeout);
+		}
+	}
+}
+
+function isRemoteImage(part: MessageContent): boolean {
+	const url = part.type === "image_url" ? part.image_url?.url : undefined;
+	return !!url && (url.startsWith("http://") || url.startsWith("https://"));
+}
+
+async function hashUrl(url: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(url));
+	return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+	// Convert in chunks to stay within the argument limit of String.fromCharCode
+	let binary = "";
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
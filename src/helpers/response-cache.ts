@@ -0,0 +1,121 @@
+import {
+	KV_RESPONSE_CACHE_PREFIX,
+	DEFAULT_RESPONSE_CACHE_TTL,
+	MIN_RESPONSE_CACHE_TTL,
+	CACHE_STATUS_HEADER
+} from "../constants";
+import { Env } from "../types";
+
+/**
+ * Helper class for caching responses to deterministic requests in Cloudflare KV.
+ * Only requests with temperature 0 are cached, keyed by a hash of the normalized request,
+ * so repeated identical prompts (e.g. from CI pipelines) do not use up the API quota.
+ * Clients can skip the lookup with a "Cache-Control: no-cache" request header.
+ */
+export class ResponseCache {
+	private env: Env;
+
+	constructor(env: Env) {
+		this.env = env;
+	}
+
+	/**
+	 * Returns the cache key for a request, or null if the cache does not apply to it.
+	 * @param scope - Separates the cache entries of different endpoints and response formats
+	 * @param request - Everything that affects the response, e.g. model, messages and generation config
+	 * @param temperature - The requested temperature; only temperature 0 is deterministic enough to cache
+	 */
+	async getKey(scope: string, request: unknown, temperature: unknown): Promise<string | null> {
+		if (this.env.ENABLE_RESPONSE_CACHE !== "true" || temperature !== 0) {
+			return null;
+		}
+
+		const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(stableStringify(request)));
+		const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+		return `${KV_RESPONSE_CACHE_PREFIX}${scope}:${hash}`;
+	}
+
+	/**
+	 * Loads a cached response, or null if there is none or the client asked to bypass the cache.
+	 * @param cacheControl - The Cache-Control request header
+	 */
+	async get<T>(key: string | null, cacheControl: string | undefined): Promise<T | null> {
+		if (!key || cacheControl?.toLowerCase().includes("no-cache")) {
+			return null;
+		}
+
+		try {
+			return await this.env.GEMINI_CLI_KV.get<T>(key, "json");
+		} catch (kvError) {
+			console.error("Failed to load cached response from KV storage:", kvError);
+			return null;
+		}
+	}
+
+	/**
+	 * Caches a response. Responses fetched with "Cache-Control: no-cache" replace the cached one.
+	 */
+	async put(key: string | null, value: unknown): Promise<void> {
+		if (!key) {
+			return;
+		}
+
+		const ttl = Number(this.env.RESPONSE_CACHE_TTL);
+		try {
+			await this.env.GEMINI_CLI_KV.put(key, JSON.stringify(value), {
+				expirationTtl: ttl >= MIN_RESPONSE_CACHE_TTL ? ttl : DEFAULT_RESPONSE_CACHE_TTL
+			});
+		} catch (kvError) {
+			console.error("Failed to cache response in KV storage:", kvError);
+			// Don't throw here, the response itself is still returned to the client
+		}
+	}
+
+	/**
+	 * Passes a streamed response body through, caching the complete body once it has been sent.
+	 * Streams that fail midway are not cached.
+	 */
+	recordStream(body: ReadableStream<Uint8Array>, key: string | null): ReadableStream<Uint8Array> {
+		if (!key) {
+			return body;
+		}
+
+		const decoder = new TextDecoder();
+		let text = "";
+		return body.pipeThrough(
+			new TransformStream<Uint8Array, Uint8Array>({
+				transform: (chunk, controller) => {
+					text += decoder.decode(chunk, { stream: true });
+					controller.enqueue(chunk);
+				},
+				flush: async () => {
+					await this.put(key, text + decoder.decode());
+				}
+			})
+		);
+	}
+
+	/**
+	 * Response headers telling the client whether the response came from the cache.
+	 */
+	static statusHeaders(key: string | null, cached: unknown): Record<string, string> {
+		return key ? { [CACHE_STATUS_HEADER]: cached ? "HIT" : "MISS" } : {};
+	}
+}
+
+/**
+ * Serializes a value to JSON with object keys in sorted order, so equal requests hash the same
+ * regardless of the order their fields were sent in.
+ */
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+	}
+	if (typeof value === "object" && value !== null) {
+		const entries = Object.entries(value)
+			.filter(([, item]) => item !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+		return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+}
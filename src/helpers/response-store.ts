@@ -0,0 +1,40 @@
+import { KV_RESPONSE_PREFIX, RESPONSE_STORE_TTL } from "../constants";
+import { Env, StoredResponse } from "../types";
+
+/**
+ * Helper class for persisting Responses API state in Cloudflare KV.
+ * Stored responses can be retrieved by id and continued with previous_response_id.
+ */
+export class ResponseStore {
+	private env: Env;
+
+	constructor(env: Env) {
+		this.env = env;
+	}
+
+	/**
+	 * Loads a stored response, or null if it does not exist or has expired.
+	 */
+	async get(responseId: string): Promise<StoredResponse | null> {
+		try {
+			return await this.env.GEMINI_CLI_KV.get<StoredResponse>(`${KV_RESPONSE_PREFIX}${responseId}`, "json");
+		} catch (kvError) {
+			console.error("Failed to load stored response from KV storage:", kvError);
+			return null;
+		}
+	}
+
+	/**
+	 * Stores a response together with the conversation that produced it.
+	 */
+	async put(stored: StoredResponse): Promise<void> {
+		try {
+			await this.env.GEMINI_CLI_KV.put(`${KV_RESPONSE_PREFIX}${stored.response.id}`, JSON.stringify(stored), {
+				expirationTtl: RESPONSE_STORE_TTL
+			});
+		} catch (kvError) {
+			console.error("Failed to store response in KV storage:", kvError);
+			// Don't throw here, the response itself is still returned to the client
+		}
+	}
+}
@@ -0,0 +1,124 @@
+import { Tool, GoogleSearchTool, CodeExecutionTool, ToolChoice, GeminiToolConfig } from "../types";
+import { JsonSchemaConverter } from "./json-schema-converter";
+
+/**
+ * Helper class to translate OpenAI tool definitions into Gemini function declarations.
+ */
+export class ToolConverter {
+	/**
+	 * Validates the OpenAI tools array and returns an error message if it is malformed.
+	 * @param tools - The tools from the chat completion request
+	 * @returns An error message, or null if the tools are valid
+	 */
+	static validateTools(tools: unknown): string | null {
+		if (!Array.isArray(tools)) {
+			return "tools must be an array";
+		}
+
+		for (const tool of tools as (Tool | GoogleSearchTool | CodeExecutionTool)[]) {
+			if (ToolConverter.isGoogleSearchTool(tool) || ToolConverter.isCodeExecutionTool(tool)) {
+				continue;
+			}
+			if (tool?.type !== "function") {
+				return `Unsupported tool type: ${tool?.type}. Only "function", "googleSearch" and "codeExecution" tools are supported`;
+			}
+			if (!tool.function?.name) {
+				return "Each function tool must have a function.name";
+			}
+			if (tool.function.parameters) {
+				const conversion = JsonSchemaConverter.convert(tool.function.parameters, { lenient: true });
+				if (!conversion.isValid) {
+					return `Invalid parameters schema for function '${tool.function.name}': ${conversion.error}`;
+				}
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Checks whether a tool entry enables Gemini's built-in Google Search instead of declaring a function.
+	 */
+	static isGoogleSearchTool(tool: unknown): tool is GoogleSearchTool {
+		return typeof tool === "object" && tool !== null && "googleSearch" in tool;
+	}
+
+	/**
+	 * Checks whether a tool entry enables Gemini's built-in code execution instead of declaring a function.
+	 */
+	static isCodeExecutionTool(tool: unknown): tool is CodeExecutionTool {
+		return typeof tool === "object" && tool !== null && "codeExecution" in tool;
+	}
+
+	/**
+	 * Converts OpenAI function tools into a Gemini tools array with function declarations.
+	 * @param tools - The OpenAI tools
+	 * @returns Gemini tools array
+	 */
+	static toGeminiTools(tools: Tool[]): Record<string, unknown>[] {
+		const functionDeclarations = tools.map((tool) => {
+			const parameters = tool.function.parameters
+				? JsonSchemaConverter.convert(tool.function.parameters, { lenient: true }).schema
+				: undefined;
+			// Gemini rejects object schemas without properties, so parameterless functions omit the schema
+			const hasParameters = !!parameters && Object.keys((parameters.properties as object) || {}).length > 0;
+
+			return {
+				name: tool.function.name,
+				...(tool.function.description && { description: tool.function.description }),
+				...(hasParameters && { parameters })
+			};
+		});
+
+		return [{ functionDeclarations }];
+	}
+
+	/**
+	 * Adds Gemini's built-in Google Search tool, which grounds responses in search results.
+	 * @param tools - The Gemini tools of the request, if any
+	 * @returns Gemini tools array including Google Search
+	 */
+	static withGoogleSearch(tools: Record<string, unknown>[] | undefined): Record<string, unknown>[] {
+		return [...(tools || []), { googleSearch: {} }];
+	}
+
+	/**
+	 * Adds Gemini's built-in code execution tool, which lets the model write and run Python code.
+	 * @param tools - The Gemini tools of the request, if any
+	 * @returns Gemini tools array including code execution
+	 */
+	static withCodeExecution(tools: Record<string, unknown>[] | undefined): Record<string, unknown>[] {
+		return [...(tools || []), { codeExecution: {} }];
+	}
+
+	/**
+	 * Converts an OpenAI tool_choice into a Gemini toolConfig.
+	 * @param toolChoice - The OpenAI tool_choice value
+	 * @returns Gemini tool config, or undefined to use Gemini's default (AUTO)
+	 */
+	static toGeminiToolConfig(toolChoice: ToolChoice | undefined): GeminiToolConfig | undefined {
+		if (!toolChoice) {
+			return undefined;
+		}
+
+		if (toolChoice === "none") {
+			return { functionCallingConfig: { mode: "NONE" } };
+		}
+		if (toolChoice === "auto") {
+			return { functionCallingConfig: { mode: "AUTO" } };
+		}
+		if (toolChoice === "required") {
+			return { functionCallingConfig: { mode: "ANY" } };
+		}
+		if (typeof toolChoice === "object" && toolChoice.function?.name) {
+			return {
+				functionCallingConfig: {
+					mode: "ANY",
+					allowedFunctionNames: [toolChoice.function.name]
+				}
+			};
+		}
+
+		return undefined;
+	}
+}
@@ -1,6 +1,9 @@
 import { Hono } from "hono";
 import { Env } from "./types";
 import { OpenAIRoute } from "./routes/openai";
+import { ResponsesRoute } from "./routes/responses";
+import { AnthropicRoute } from "./routes/anthropic";
+import { OllamaRoute } from "./routes/ollama";
 import { DebugRoute } from "./routes/debug";
 import { GeminiRoute } from "./routes/gemini";
 import { openAIApiKeyAuth, geminiApiKeyAuth } from "./middlewares/auth";
@@ -14,6 +17,9 @@ import { loggingMiddleware } from "./middlewares/logging";
  *
  * Features:
  * - OpenAI-compatible chat completions and model listing
+ * - OpenAI Responses API with stored, chainable responses
+ * - Anthropic Messages API compatibility
+ * - Ollama-compatible API with newline-delimited JSON streaming
  * - Native Gemini API request forwarding
  * - OAuth2 authentication with token caching via Cloudflare KV
  * - Support for multiple Gemini models (2.5 Pro, 2.0 Flash, 1.5 Pro, etc.)
@@ -32,7 +38,7 @@ app.use("*", async (c, next) => {
 	// Set CORS headers
 	c.header("Access-Control-Allow-Origin", "*");
 	c.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-	c.header("Access-Control-Allow-Headers", "Content-Type, Authorization, x-goog-api-key");
+	c.header("Access-Control-Allow-Headers", "Content-Type, Authorization, x-goog-api-key, x-api-key, anthropic-version");
 
 	// Handle preflight requests
 	if (c.req.method === "OPTIONS") {
@@ -54,11 +60,16 @@ app.use("/*", geminiApiKeyAuth);
 
 // Setup route handlers
 app.route("/v1", OpenAIRoute);
+app.route("/v1/responses", ResponsesRoute);
+app.route("/v1", AnthropicRoute);
 app.route("/v1/debug", DebugRoute);
 
 // Add /v1beta route that points to Gemini native API
 app.route("/v1beta", GeminiRoute);
 
+// Add Ollama-compatible routes (must be registered before the root Gemini routes)
+app.route("/api", OllamaRoute);
+
 // Add individual debug routes to main app for backward compatibility
 app.route("/v1", DebugRoute);
 
@@ -77,8 +88,20 @@ app.get("/", (c) => {
 		endpoints: {
 			openai_compatible: {
 				chat_completions: "/v1/chat/completions",
+				completions: "/v1/completions",
+				embeddings: "/v1/embeddings",
+				responses: "/v1/responses",
 				models: "/v1/models"
 			},
+			anthropic_compatible: {
+				messages: "/v1/messages"
+			},
+			ollama_compatible: {
+				chat: "/api/chat",
+				generate: "/api/generate",
+				tags: "/api/tags",
+				show: "/api/show"
+			},
 			native_gemini: {
 				root: {
 					models: "/models",
@@ -4,6 +4,7 @@ import { Env } from "../types";
 /**
  * Middleware to enforce OpenAI-style API key authentication if OPENAI_API_KEY is set in the environment.
  * Checks for 'Authorization: Bearer <key>' header on protected routes.
+ * The 'x-api-key' header used by Anthropic SDKs is accepted as well.
  */
 export const openAIApiKeyAuth: MiddlewareHandler<{ Bindings: Env }> = async (c, next) => {
 	// Skip authentication for public endpoints
@@ -17,13 +18,14 @@ export const openAIApiKeyAuth: MiddlewareHandler<{ Bindings: Env }> = async (c,
 	if (c.env.OPENAI_API_KEY) {
 		const authHeader = c.req.header("Authorization");
 		const googApiKey = c.req.header("x-goog-api-key");
+		const anthropicApiKey = c.req.header("x-api-key");
 
 		// Check if either authorization method is provided
-		if (!authHeader && !googApiKey) {
+		if (!authHeader && !googApiKey && !anthropicApiKey) {
 			return c.json(
 				{
 					error: {
-						message: "Missing Authorization header or x-goog-api-key header",
+						message: "Missing Authorization header, x-goog-api-key header, or x-api-key header",
 						type: "authentication_error",
 						code: "missing_authorization"
 					}
@@ -52,6 +54,13 @@ export const openAIApiKeyAuth: MiddlewareHandler<{ Bindings: Env }> = async (c,
 			}
 		}
 
+		// Check x-api-key header (Anthropic SDKs)
+		if (!isAuthenticated && anthropicApiKey) {
+			if (anthropicApiKey === c.env.OPENAI_API_KEY) {
+				isAuthenticated = true;
+			}
+		}
+
 		if (!isAuthenticated) {
 			return c.json(
 				{
@@ -88,14 +97,15 @@ export const geminiApiKeyAuth: MiddlewareHandler<{ Bindings: Env }> = async (c,
 	if (c.env.OPENAI_API_KEY) {
 		const authHeader = c.req.header("Authorization");
 		const googApiKey = c.req.header("x-goog-api-key");
+		const anthropicApiKey = c.req.header("x-api-key");
 		const urlKey = c.req.query("key"); // Support URL parameter key
 
 		// Check if any authorization method is provided
-		if (!authHeader && !googApiKey && !urlKey) {
+		if (!authHeader && !googApiKey && !anthropicApiKey && !urlKey) {
 			return c.json(
 				{
 					error: {
-						message: "Missing Authorization header, x-goog-api-key header, or key parameter",
+						message: "Missing Authorization header, x-goog-api-key header, x-api-key header, or key parameter",
 						type: "authentication_error",
 						code: "missing_authorization"
 					}
@@ -124,6 +134,13 @@ export const geminiApiKeyAuth: MiddlewareHandler<{ Bindings: Env }> = async (c,
 			}
 		}
 
+		// Check x-api-key header (Anthropic SDKs)
+		if (!isAuthenticated && anthropicApiKey) {
+			if (anthropicApiKey === c.env.OPENAI_API_KEY) {
+				isAuthenticated = true;
+			}
+		}
+
 		// Check URL parameter key
 		if (!isAuthenticated && urlKey) {
 			if (urlKey === c.env.OPENAI_API_KEY) {
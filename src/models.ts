@@ -1,4 +1,4 @@
-import { ModelInfo } from "./types";
+import { ModelInfo, EmbeddingModelInfo } from "./types";
 
 // --- Gemini CLI Models Configuration ---
 export const geminiCliModels: Record<string, ModelInfo> = {
@@ -6,26 +6,51 @@ export const geminiCliModels: Record<string, ModelInfo> = {
 		maxTokens: 65536,
 		contextWindow: 1_048_576,
 		supportsImages: true,
+		supportsAudio: true,
+		supportsDocuments: true,
 		supportsPromptCache: false,
 		inputPrice: 0,
 		outputPrice: 0,
 		description: "Google's Gemini 2.5 Pro model via OAuth (free tier)",
-		thinking: true
+		thinking: true,
+		minThinkingBudget: 128, // Thinking cannot be disabled on 2.5 Pro
+		maxThinkingBudget: 32768
 	},
 	"gemini-2.5-flash": {
 		maxTokens: 65536,
 		contextWindow: 1_048_576,
 		supportsImages: true,
+		supportsAudio: true,
+		supportsDocuments: true,
 		supportsPromptCache: false,
 		inputPrice: 0,
 		outputPrice: 0,
 		description: "Google's Gemini 2.5 Flash model via OAuth (free tier)",
-		thinking: true
+		thinking: true,
+		minThinkingBudget: 0,
+		maxThinkingBudget: 24576
+	}
+};
+
+// --- Gemini Embedding Models Configuration ---
+export const geminiEmbeddingModels: Record<string, EmbeddingModelInfo> = {
+	"gemini-embedding-001": {
+		dimensions: 3072,
+		supportsCustomDimensions: true,
+		maxInputTokens: 2048,
+		description: "Google's Gemini embedding model with configurable output dimensionality"
+	},
+	"text-embedding-004": {
+		dimensions: 768,
+		supportsCustomDimensions: true,
+		maxInputTokens: 2048,
+		description: "Google's text embedding model"
 	}
 };
 
 // --- Default Model ---
 export const DEFAULT_MODEL = "gemini-2.5-flash";
+export const DEFAULT_EMBEDDING_MODEL = "gemini-embedding-001";
 
 // --- Helper Functions ---
 export function getModelInfo(modelId: string): ModelInfo | null {
@@ -39,3 +64,7 @@ export function getAllModelIds(): string[] {
 export function isValidModel(modelId: string): boolean {
 	return modelId in geminiCliModels;
 }
+
+export function getAllEmbeddingModelIds(): string[] {
+	return Object.keys(geminiEmbeddingModels);
+}
@@ -0,0 +1,187 @@
+import { StreamChunk, UsageData, OllamaToolCall } from "./types";
+import { isReasoningData, isToolCallData, isUsageData, isFinishReasonData, isErrorData } from "./stream-transformer";
+import { mapFinishReason } from "./utils/finish-reason";
+
+// Ollama response line, for both /api/chat ("message") and /api/generate ("response")
+interface OllamaResponseChunk {
+	model: string;
+	created_at: string;
+	message?: {
+		role: "assistant";
+		content: string;
+		thinking?: string;
+		tool_calls?: OllamaToolCall[];
+	};
+	response?: string;
+	thinking?: string;
+	done: boolean;
+	done_reason?: "stop" | "length";
+	total_duration?: number;
+	load_duration?: number;
+	prompt_eval_count?: number;
+	prompt_eval_duration?: number;
+	eval_count?: number;
+	eval_duration?: number;
+}
+
+export type OllamaEndpoint = "chat" | "generate";
+
+/**
+ * Builds Ollama /api/chat or /api/generate responses from Gemini's output chunks.
+ * Streaming requests send every chunk as its own line; non-streaming requests
+ * receive the accumulated response in a single final object.
+ */
+export class OllamaResponseBuilder {
+	private model: string;
+	private endpoint: OllamaEndpoint;
+	private startTime = Date.now();
+	private content = "";
+	private thinking = "";
+	private toolCalls: OllamaToolCall[] = [];
+	private finishReason: string | undefined;
+	private usage: UsageData | null = null;
+
+	constructor(model: string, endpoint: OllamaEndpoint) {
+		this.model = model;
+		this.endpoint = endpoint;
+	}
+
+	/**
+	 * Applies one Gemini output chunk and returns the response line it produced, if any.
+	 */
+	handleChunk(chunk: StreamChunk): OllamaResponseChunk | null {
+		// Ollama has no equivalent of multiple choices, so only the first candidate is used
+		if ((chunk.candidateIndex ?? 0) !== 0) {
+			return null;
+		}
+
+		if ((chunk.type === "text" || chunk.type === "thinking_content") && typeof chunk.data === "string" && chunk.data) {
+			this.content += chunk.data;
+			return this.createChunk({ content: chunk.data });
+		} else if (chunk.type === "real_thinking" && typeof chunk.data === "string" && chunk.data) {
+			this.thinking += chunk.data;
+			return this.createChunk({ thinking: chunk.data });
+		} else if (chunk.type === "reasoning" && isReasoningData(chunk.data)) {
+			this.thinking += chunk.data.reasoning;
+			return this.createChunk({ thinking: chunk.data.reasoning });
+		} else if (chunk.type === "tool_call" && isToolCallData(chunk.data) && this.endpoint === "chat") {
+			let args: Record<string, unknown>;
+			try {
+				args = JSON.parse(chunk.data.arguments);
+			} catch {
+				args = {};
+			}
+			const toolCall = { id: chunk.data.id, function: { name: chunk.data.name, arguments: args } };
+			this.toolCalls.push(toolCall);
+			return this.createChunk({ toolCalls: [toolCall] });
+		} else if (chunk.type === "finish_reason" && isFinishReasonData(chunk.data)) {
+			this.finishReason = chunk.data.reason;
+		} else if (chunk.type === "usage" && isUsageData(chunk.data)) {
+			// Gemini reports cumulative usage, so only the latest value matters
+			this.usage = chunk.data;
+		}
+		return null;
+	}
+
+	/**
+	 * The final streaming line, with done set and the usage statistics.
+	 */
+	finish(): OllamaResponseChunk {
+		return this.createFinalChunk({});
+	}
+
+	/**
+	 * The complete non-streaming response.
+	 */
+	getResponse(): OllamaResponseChunk {
+		return this.createFinalChunk({
+			content: this.content,
+			thinking: this.thinking || undefined,
+			toolCalls: this.toolCalls.length ? this.toolCalls : undefined
+		});
+	}
+
+	private createChunk(output: {
+		content?: string;
+		thinking?: string;
+		toolCalls?: OllamaToolCall[];
+	}): OllamaResponseChunk {
+		const chunk: OllamaResponseChunk = {
+			model: this.model,
+			created_at: new Date().toISOString(),
+			done: false
+		};
+
+		if (this.endpoint === "chat") {
+			chunk.message = {
+				role: "assistant",
+				content: output.content || "",
+				...(output.thinking && { thinking: output.thinking }),
+				...(output.toolCalls && { tool_calls: output.toolCalls })
+			};
+		} else {
+			chunk.response = output.content || "";
+			if (output.thinking) {
+				chunk.thinking = output.thinking;
+			}
+		}
+		return chunk;
+	}
+
+	private createFinalChunk(output: {
+		content?: string;
+		thinking?: string;
+		toolCalls?: OllamaToolCall[];
+	}): OllamaResponseChunk {
+		// Ollama reports durations in nanoseconds; Gemini does not split them, so everything counts as evaluation
+		const totalDuration = (Date.now() - this.startTime) * 1_000_000;
+		const inputTokens = this.usage?.inputTokens || 0;
+		const outputTokens = (this.usage?.outputTokens || 0) + (this.usage?.reasoningTokens || 0);
+
+		return {
+			...this.createChunk(output),
+			done: true,
+			done_reason: mapFinishReason(this.finishReason) === "length" ? "length" : "stop",
+			total_duration: totalDuration,
+			load_duration: 0,
+			prompt_eval_count: inputTokens,
+			prompt_eval_duration: 0,
+			eval_count: outputTokens,
+			eval_duration: totalDuration
+		};
+	}
+}
+
+/**
+ * Creates a TransformStream to convert Gemini's output chunks
+ * into Ollama's newline-delimited JSON stream.
+ */
+export function createOllamaStreamTransformer(
+	model: string,
+	endpoint: OllamaEndpoint
+): TransformStream<StreamChunk, Uint8Array> {
+	const builder = new OllamaResponseBuilder(model, endpoint);
+	const encoder = new TextEncoder();
+	let failed = false;
+
+	return new TransformStream({
+		transform(chunk, controller) {
+			// Ollama clients raise an error for a line with an "error" field, which also ends the stream
+			if (chunk.type === "error" && isErrorData(chunk.data)) {
+				failed = true;
+				controller.enqueue(encoder.encode(`${JSON.stringify({ error: chunk.data.message })}\n`));
+				return;
+			}
+
+			const line = builder.handleChunk(chunk);
+			if (line) {
+				controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+			}
+		},
+		flush(controller) {
+			if (!failed) {
+				controller.enqueue(encoder.encode(`${JSON.stringify(builder.finish())}\n`));
+			}
+		}
+	});
+}
@@ -0,0 +1,332 @@
+import {
+	StreamChunk,
+	UsageData,
+	ChatMessage,
+	ToolCall,
+	ResponsesRequest,
+	ResponseObject,
+	ResponseOutputMessage,
+	ResponseReasoningItem,
+	ResponseFunctionCallItem
+} from "./types";
+import { isReasoningData, isToolCallData, isUsageData, isFinishReasonData, isErrorData } from "./stream-transformer";
+import { mapFinishReason } from "./utils/finish-reason";
+import { toResponseUsage } from "./utils/usage-utils";
+
+// Responses API streaming event
+interface ResponseStreamEvent {
+	type: string;
+	sequence_number: number;
+	[key: string]: unknown;
+}
+
+/**
+ * Generates an id in the Responses API format, e.g. "resp_…", "msg_…" or "fc_…".
+ */
+function generateId(prefix: string): string {
+	return `${prefix}_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * Builds a Responses API response object from Gemini's output chunks.
+ * Every chunk is translated into the semantic events of the streaming protocol,
+ * so the same builder serves streaming and non-streaming requests.
+ */
+export class ResponseBuilder {
+	private response: ResponseObject;
+	private sequenceNumber = 0;
+	private openItem: ResponseOutputMessage | ResponseReasoningItem | null = null;
+	private finishReason: string | undefined;
+	private usage: UsageData | null = null;
+	private assistantText = "";
+	private toolCalls: ToolCall[] = [];
+
+	constructor(model: string, request: ResponsesRequest) {
+		this.response = {
+			id: generateId("resp"),
+			object: "response",
+			created_at: Math.floor(Date.now() / 1000),
+			status: "in_progress",
+			model,
+			output: [],
+			instructions: request.instructions ?? null,
+			previous_response_id: request.previous_response_id ?? null,
+			tools: request.tools || [],
+			tool_choice: request.tool_choice ?? "auto",
+			temperature: request.temperature ?? null,
+			top_p: request.top_p ?? null,
+			max_output_tokens: request.max_output_tokens ?? null,
+			parallel_tool_calls: true,
+			store: request.store !== false,
+			metadata: request.metadata || {},
+			text: { format: { type: "text" } },
+			usage: null,
+			error: null,
+			incomplete_details: null
+		};
+	}
+
+	/**
+	 * Events announcing the response before any output is produced.
+	 */
+	start(): ResponseStreamEvent[] {
+		return [
+			this.event("response.created", { response: this.response }),
+			this.event("response.in_progress", { response: this.response })
+		];
+	}
+
+	/**
+	 * Applies one Gemini output chunk and returns the events it produced.
+	 */
+	handleChunk(chunk: StreamChunk): ResponseStreamEvent[] {
+		// A response has a single output, so only the first candidate is used
+		if ((chunk.candidateIndex ?? 0) !== 0) {
+			return [];
+		}
+
+		if ((chunk.type === "text" || chunk.type === "thinking_content") && typeof chunk.data === "string" && chunk.data) {
+			return this.appendText(chunk.data);
+		} else if (chunk.type === "real_thinking" && typeof chunk.data === "string" && chunk.data) {
+			return this.appendReasoning(chunk.data);
+		} else if (chunk.type === "reasoning" && isReasoningData(chunk.data)) {
+			return this.appendReasoning(chunk.data.reasoning);
+		} else if (chunk.type === "tool_call" && isToolCallData(chunk.data)) {
+			return this.addFunctionCall(chunk.data.id, chunk.data.name, chunk.data.arguments, chunk.data.thoughtSignature);
+		} else if (chunk.type === "finish_reason" && isFinishReasonData(chunk.data)) {
+			this.finishReason = chunk.data.reason;
+		} else if (chunk.type === "usage" && isUsageData(chunk.data)) {
+			// Gemini reports cumulative usage, so only the latest value matters
+			this.usage = chunk.data;
+		} else if (chunk.type === "error" && isErrorData(chunk.data)) {
+			const fallbackCode = chunk.data.status < 500 ? "invalid_request_error" : "server_error";
+			return this.fail(chunk.data.code || fallbackCode, chunk.data.message);
+		}
+		return [];
+	}
+
+	/**
+	 * Closes any open output item and completes the response.
+	 * A failed response was already ended by its response.failed event.
+	 */
+	finish(): ResponseStreamEvent[] {
+		if (this.response.status === "failed") {
+			return [];
+		}
+
+		const finishReason = mapFinishReason(this.finishReason);
+		if (finishReason === "length") {
+			this.response.status = "incomplete";
+			this.response.incomplete_details = { reason: "max_output_tokens" };
+		} else if (finishReason === "content_filter") {
+			this.response.status = "incomplete";
+			this.response.incomplete_details = { reason: "content_filter" };
+		} else {
+			this.response.status = "completed";
+		}
+
+		const events = this.closeOpenItem();
+		this.response.usage = this.usage ? toResponseUsage(this.usage) : null;
+		events.push(this.event(`response.${this.response.status}`, { response: this.response }));
+		return events;
+	}
+
+	getResponse(): ResponseObject {
+		return this.response;
+	}
+
+	/**
+	 * The assistant turn produced by this response, used to continue the conversation
+	 * when a later request references it through previous_response_id.
+	 */
+	getAssistantMessage(): ChatMessage | null {
+		if (!this.assistantText && !this.toolCalls.length) {
+			return null;
+		}
+		return {
+			role: "assistant",
+			content: this.assistantText || null,
+			...(this.toolCalls.length > 0 && { tool_calls: this.toolCalls })
+		};
+	}
+
+	private fail(code: string, message: string): ResponseStreamEvent[] {
+		if (this.openItem?.type === "message") {
+			this.openItem.status = "incomplete";
+		}
+		this.openItem = null;
+		this.response.status = "failed";
+		this.response.error = { code, message };
+		this.response.usage = this.usage ? toResponseUsage(this.usage) : null;
+		return [
+			this.event("error", { code, message, param: null }),
+			this.event("response.failed", { response: this.response })
+		];
+	}
+
+	private appendText(text: string): ResponseStreamEvent[] {
+		const events: ResponseStreamEvent[] = [];
+		if (this.openItem?.type !== "message") {
+			events.push(...this.closeOpenItem());
+			const item: ResponseOutputMessage = {
+				type: "message",
+				id: generateId("msg"),
+				status: "in_progress",
+				role: "assistant",
+				content: []
+			};
+			events.push(this.openOutputItem(item));
+			const part = { type: "output_text" as const, text: "", annotations: [] };
+			item.content.push(part);
+			events.push(this.event("response.content_part.added", { ...this.itemRef(item), content_index: 0, part }));
+		}
+
+		const item = this.openItem as ResponseOutputMessage;
+		item.content[0].text += text;
+		this.assistantText += text;
+		events.push(this.event("response.output_text.delta", { ...this.itemRef(item), content_index: 0, delta: text }));
+		return events;
+	}
+
+	private appendReasoning(text: string): ResponseStreamEvent[] {
+		const events: ResponseStreamEvent[] = [];
+		if (this.openItem?.type !== "reasoning") {
+			events.push(...this.closeOpenItem());
+			const item: ResponseReasoningItem = { type: "reasoning", id: generateId("rs"), summary: [] };
+			events.push(this.openOutputItem(item));
+			const part = { type: "summary_text" as const, text: "" };
+			item.summary.push(part);
+			events.push(
+				this.event("response.reasoning_summary_part.added", { ...this.itemRef(item), summary_index: 0, part })
+			);
+		}
+
+		const item = this.openItem as ResponseReasoningItem;
+		item.summary[0].text += text;
+		events.push(
+			this.event("response.reasoning_summary_text.delta", { ...this.itemRef(item), summary_index: 0, delta: text })
+		);
+		return events;
+	}
+
+	private addFunctionCall(
+		callId: string,
+		name: string,
+		args: string,
+		thoughtSignature: string | undefined
+	): ResponseStreamEvent[] {
+		const events = this.closeOpenItem();
+		const item: ResponseFunctionCallItem = {
+			type: "function_call",
+			id: generateId("fc"),
+			call_id: callId,
+			name,
+			arguments: "",
+			status: "in_progress"
+		};
+		this.response.output.push(item);
+		events.push(this.event("response.output_item.added", { output_index: this.outputIndex(item), item }));
+
+		// Each Gemini function call arrives complete, so the arguments are sent as a single delta
+		item.arguments = args;
+		item.status = "completed";
+		events.push(
+			this.event("response.function_call_arguments.delta", { ...this.itemRef(item), delta: args }),
+			this.event("response.function_call_arguments.done", { ...this.itemRef(item), arguments: args }),
+			this.event("response.output_item.done", { output_index: this.outputIndex(item), item })
+		);
+
+		this.toolCalls.push({
+			id: callId,
+			type: "function",
+			function: { name, arguments: args },
+			...(thoughtSignature && { extra_content: { google: { thought_signature: thoughtSignature } } })
+		});
+		return events;
+	}
+
+	private openOutputItem(item: ResponseOutputMessage | ResponseReasoningItem): ResponseStreamEvent {
+		this.response.output.push(item);
+		this.openItem = item;
+		return this.event("response.output_item.added", { output_index: this.outputIndex(item), item });
+	}
+
+	private closeOpenItem(): ResponseStreamEvent[] {
+		const item = this.openItem;
+		if (!item) {
+			return [];
+		}
+		this.openItem = null;
+
+		const events: ResponseStreamEvent[] = [];
+		if (item.type === "message") {
+			const part = item.content[0];
+			item.status = this.response.status === "incomplete" ? "incomplete" : "completed";
+			events.push(
+				this.event("response.output_text.done", { ...this.itemRef(item), content_index: 0, text: part.text }),
+				this.event("response.content_part.done", { ...this.itemRef(item), content_index: 0, part })
+			);
+		} else {
+			const part = item.summary[0];
+			events.push(
+				this.event("response.reasoning_summary_text.done", {
+					...this.itemRef(item),
+					summary_index: 0,
+					text: part.text
+				}),
+				this.event("response.reasoning_summary_part.done", { ...this.itemRef(item), summary_index: 0, part })
+			);
+		}
+		events.push(this.event("response.output_item.done", { output_index: this.outputIndex(item), item }));
+		return events;
+	}
+
+	private outputIndex(item: { id?: string }): number {
+		return this.response.output.findIndex((outputItem) => outputItem.id === item.id);
+	}
+
+	private itemRef(item: { id?: string }): { item_id: string | undefined; output_index: number } {
+		return { item_id: item.id, output_index: this.outputIndex(item) };
+	}
+
+	// Events are snapshots, so later changes to the response do not leak into already created events
+	private event(type: string, payload: Record<string, unknown>): ResponseStreamEvent {
+		return structuredClone({ type, sequence_number: this.sequenceNumber++, ...payload });
+	}
+}
+
+/**
+ * Creates a TransformStream to convert Gemini's output chunks
+ * into Responses API server-sent events (response.created, response.output_text.delta, ...).
+ * onComplete runs before the final event is sent, so a client that immediately
+ * chains on the completed response can find it in storage.
+ */
+export function createResponsesStreamTransformer(
+	builder: ResponseBuilder,
+	onComplete?: (builder: ResponseBuilder) => Promise<void>
+): TransformStream<StreamChunk, Uint8Array> {
+	const encoder = new TextEncoder();
+
+	const enqueueEvents = (controller: TransformStreamDefaultController<Uint8Array>, events: ResponseStreamEvent[]) => {
+		for (const event of events) {
+			controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+		}
+	};
+
+	return new TransformStream({
+		start(controller) {
+			enqueueEvents(controller, builder.start());
+		},
+		transform(chunk, controller) {
+			enqueueEvents(controller, builder.handleChunk(chunk));
+		},
+		async flush(controller) {
+			const events = builder.finish();
+			// Failed responses are not stored, so they cannot be continued
+			if (onComplete && builder.getResponse().status !== "failed") {
+				await onComplete(builder);
+			}
+			enqueueEvents(controller, events);
+		}
+	});
+}
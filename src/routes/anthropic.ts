@@ -0,0 +1,356 @@
+import { Hono } from "hono";
+import { ContentfulStatusCode } from "hono/utils/http-status";
+import {
+	Env,
+	ChatMessage,
+	MessageContent,
+	Tool,
+	ToolChoice,
+	AnthropicMessagesRequest,
+	AnthropicMessage,
+	AnthropicImageBlock,
+	AnthropicTextBlock
+} from "../types";
+import { geminiCliModels } from "../models";
+import { DEFAULT_THINKING_BUDGET } from "../constants";
+import { AuthManager } from "../auth";
+import { GeminiApiClient } from "../gemini-client";
+import {
+	AnthropicMessageBuilder,
+	anthropicErrorType,
+	createAnthropicStreamTransformer
+} from "../anthropic-stream-transformer";
+import { ToolConverter } from "../helpers/tool-converter";
+import { ModelResolver } from "../helpers/model-resolver";
+import { RemoteImageFetcher } from "../helpers/remote-image-fetcher";
+import { toErrorData, retryAfterHeaders } from "../utils/error-utils";
+import { readJsonBody } from "../utils/request-utils";
+import { applyStopSequences } from "../utils/stop-sequence-utils";
+
+/**
+ * Anthropic Messages API compatible routes, so Anthropic SDK based tools can use Gemini models.
+ */
+export const AnthropicRoute = new Hono<{ Bindings: Env }>();
+
+// Create a message
+AnthropicRoute.post("/messages", async (c) => {
+	try {
+		console.log("Anthropic messages request received");
+		const body = await readJsonBody<AnthropicMessagesRequest>(c.req);
+		// Resolve aliases and suffixes such as ":thinking-high" to a Gemini model
+		const modelResolver = new ModelResolver(c.env);
+		const resolvedModel = body.model ? modelResolver.resolve(body.model) : null;
+		const stream = body.stream === true;
+
+		// Validate model
+		if (!resolvedModel) {
+			return c.json(anthropicError(modelResolver.unknownModelMessage(body.model)), 400);
+		}
+		const model = resolvedModel.model;
+		// Responses echo the requested model name, which may be an alias
+		const requestedModel = body.model;
+
+		if (!Array.isArray(body.messages) || !body.messages.length) {
+			return c.json(anthropicError("messages is a required field"), 400);
+		}
+
+		if (!Number.isInteger(body.max_tokens) || body.max_tokens < 1) {
+			return c.json(anthropicError("max_tokens must be a positive integer"), 400);
+		}
+
+		if (
+			body.stop_sequences !== undefined &&
+			(!Array.isArray(body.stop_sequences) || !body.stop_sequences.every((sequence) => typeof sequence === "string"))
+		) {
+			return c.json(anthropicError("stop_sequences must be an array of strings"), 400);
+		}
+		// Gemini stops at the sequences but does not report the one that matched, so the output is matched as well
+		const stopSequences = body.stop_sequences || [];
+
+		// An explicit thinking setting overrides the ENABLE_REAL_THINKING default
+		const isRealThinkingEnabled = c.env.ENABLE_REAL_THINKING === "true";
+		const includeReasoning = body.thinking ? body.thinking.type === "enabled" : isRealThinkingEnabled;
+		const thinkingBudget =
+			body.thinking?.type === "enabled"
+				? body.thinking.budget_tokens
+				: (resolvedModel.thinkingBudget ?? DEFAULT_THINKING_BUDGET);
+
+		let messages: ChatMessage[];
+		try {
+			messages = body.messages.flatMap(toChatMessages);
+		} catch (conversionError: unknown) {
+			const errorMessage = conversionError instanceof Error ? conversionError.message : String(conversionError);
+			return c.json(anthropicError(errorMessage), 400);
+		}
+
+		const systemPrompt =
+			typeof body.system === "string" ? body.system : (body.system || []).map((block) => block.text).join("\n");
+
+		// Validate and translate Anthropic tools into Gemini function declarations
+		let tools: Record<string, unknown>[] | undefined;
+		let toolConfig;
+		if (body.tools !== undefined) {
+			if (!Array.isArray(body.tools)) {
+				return c.json(anthropicError("tools must be an array"), 400);
+			}
+			const chatTools: Tool[] = body.tools.map((tool) => ({
+				type: "function",
+				function: { name: tool.name, description: tool.description, parameters: tool.input_schema }
+			}));
+			const toolsError = ToolConverter.validateTools(chatTools);
+			if (toolsError) {
+				return c.json(anthropicError(toolsError), 400);
+			}
+			if (chatTools.length) {
+				tools = ToolConverter.toGeminiTools(chatTools);
+				toolConfig = ToolConverter.toGeminiToolConfig(toChatToolChoice(body.tool_choice));
+			}
+		}
+
+		// Extract and normalize parameters for Gemini API
+		const generationConfig = {
+			temperature: body.temperature,
+			topP: body.top_p,
+			topK: body.top_k,
+			maxOutputTokens: body.max_tokens,
+			stopSequences: body.stop_sequences
+		};
+
+		// Filter out undefined values
+		const filteredConfig = Object.fromEntries(
+			Object.entries(generationConfig).filter(([, value]) => value !== undefined)
+		);
+
+		const geminiConfig = {
+			includeReasoning,
+			thinkingBudget,
+			generationConfig: filteredConfig,
+			tools: resolvedModel.search ? ToolConverter.withGoogleSearch(tools) : tools,
+			toolConfig,
+			// Anthropic clients render thinking blocks natively, so thinking is never mixed into text
+			streamThinkingAsContent: false
+		};
+
+		console.log("Anthropic request parsed:", {
+			model,
+			messageCount: messages.length,
+			stream,
+			includeReasoning,
+			thinkingBudget,
+			generationConfig: filteredConfig,
+			toolCount: body.tools?.length || 0
+		});
+
+		// Check if the request contains images and validate model support
+		const hasImages = messages.some(
+			(msg) => Array.isArray(msg.content) && msg.content.some((content) => content.type === "image_url")
+		);
+		if (hasImages && !geminiCliModels[model].supportsImages) {
+			return c.json(anthropicError(`Model '${model}' does not support image inputs.`), 400);
+		}
+
+		// Remote images are downloaded before the response starts, so a broken image URL is reported as a 400
+		const requestMessages = await new RemoteImageFetcher(c.env).inlineRemoteImages(messages);
+
+		// Initialize services
+		const authManager = new AuthManager(c.env);
+		const geminiClient = new GeminiApiClient(c.env, authManager);
+
+		// Test authentication first
+		try {
+			await authManager.initializeAuth();
+			console.log("Authentication successful");
+		} catch (authError: unknown) {
+			const errorMessage = authError instanceof Error ? authError.message : String(authError);
+			console.error("Authentication failed:", errorMessage);
+			return c.json(anthropicError("Authentication failed: " + errorMessage, "authentication_error"), 401);
+		}
+
+		if (stream) {
+			// Streaming response
+			const { readable, writable } = new TransformStream();
+			const writer = writable.getWriter();
+			const anthropicStream = readable.pipeThrough(createAnthropicStreamTransformer(requestedModel));
+
+			// Asynchronously pipe data from Gemini to transformer
+			(async () => {
+				try {
+					console.log("Starting Anthropic stream generation");
+					const geminiStream = applyStopSequences(
+						geminiClient.streamContent(model, systemPrompt, requestMessages, geminiConfig),
+						stopSequences
+					);
+
+					for await (const chunk of geminiStream) {
+						await writer.write(chunk);
+					}
+					console.log("Anthropic stream completed successfully");
+					await writer.close();
+				} catch (streamError: unknown) {
+					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+					console.error("Stream error:", errorMessage);
+					// Report the error in-band, since the response status has already been sent
+					await writer.write({ type: "error", data: toErrorData(streamError) });
+					await writer.close();
+				}
+			})();
+
+			// Return streaming response
+			return new Response(anthropicStream, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+					Connection: "keep-alive",
+					"Access-Control-Allow-Origin": "*",
+					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+					"Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key, anthropic-version"
+				}
+			});
+		} else {
+			// Non-streaming response
+			try {
+				console.log("Starting non-streaming Anthropic message");
+				const builder = new AnthropicMessageBuilder(requestedModel);
+				const geminiStream = applyStopSequences(
+					geminiClient.streamContent(model, systemPrompt, requestMessages, geminiConfig),
+					stopSequences
+				);
+				for await (const chunk of geminiStream) {
+					builder.handleChunk(chunk);
+				}
+				builder.finish();
+
+				console.log("Non-streaming Anthropic message successful");
+				return c.json(builder.getMessage());
+			} catch (completionError: unknown) {
+				const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+				console.error("Completion error:", errorMessage);
+				const { status, body: errorBody, headers } = toAnthropicErrorResponse(completionError);
+				return c.json(errorBody, status, headers);
+			}
+		}
+	} catch (e: unknown) {
+		console.error("Top-level error:", e);
+		const { status, body: errorBody, headers } = toAnthropicErrorResponse(e);
+		return c.json(errorBody, status, headers);
+	}
+});
+
+/**
+ * Builds an error body in the Anthropic API format.
+ */
+function anthropicError(message: string, type: string = "invalid_request_error") {
+	return { type: "error", error: { type, message } };
+}
+
+/**
+ * Converts any error raised while serving a request into an Anthropic error response,
+ * keeping the upstream status and forwarding the retry delay as a Retry-After header.
+ */
+function toAnthropicErrorResponse(error: unknown) {
+	const errorData = toErrorData(error);
+	return {
+		status: errorData.status as ContentfulStatusCode,
+		body: anthropicError(errorData.message, anthropicErrorType(errorData.status)),
+		headers: retryAfterHeaders(error)
+	};
+}
+
+/**
+ * Converts an Anthropic message into chat messages.
+ * tool_result blocks become separate "tool" messages ahead of the remaining user content,
+ * and tool_use blocks become assistant tool calls. Thinking blocks are not sent back to Gemini.
+ */
+function toChatMessages(message: AnthropicMessage): ChatMessage[] {
+	if (message.role !== "user" && message.role !== "assistant") {
+		throw new Error(`Unsupported message role: ${message.role}`);
+	}
+	if (typeof message.content === "string") {
+		return [{ role: message.role, content: message.content }];
+	}
+	if (!Array.isArray(message.content)) {
+		throw new Error("message content must be a string or an array of content blocks");
+	}
+
+	const messages: ChatMessage[] = [];
+	const content: MessageContent[] = [];
+
+	if (message.role === "assistant") {
+		const toolCalls = [];
+		for (const block of message.content) {
+			if (block.type === "text") {
+				content.push({ type: "text", text: block.text });
+			} else if (block.type === "tool_use") {
+				toolCalls.push({
+					id: block.id,
+					type: "function" as const,
+					function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+				});
+			} else if (block.type !== "thinking" && block.type !== "redacted_thinking") {
+				throw new Error(`Unsupported content block type in assistant message: ${block.type}`);
+			}
+		}
+		const text = content.map((part) => part.text).join("");
+		return [{ role: "assistant", content: text || null, ...(toolCalls.length > 0 && { tool_calls: toolCalls }) }];
+	}
+
+	for (const block of message.content) {
+		if (block.type === "text") {
+			content.push({ type: "text", text: block.text });
+		} else if (block.type === "image") {
+			content.push(toImageContent(block));
+		} else if (block.type === "tool_result") {
+			const resultBlocks: Array<AnthropicTextBlock | AnthropicImageBlock> =
+				typeof block.content === "string" ? [{ type: "text", text: block.content }] : block.content || [];
+			const output = resultBlocks
+				.filter((part): part is AnthropicTextBlock => part.type === "text")
+				.map((part) => part.text)
+				.join("\n");
+			messages.push({
+				role: "tool",
+				tool_call_id: block.tool_use_id,
+				content: block.is_error ? JSON.stringify({ error: output }) : output
+			});
+			// Gemini function responses are text only, so images in tool results are sent as user content
+			for (const part of resultBlocks) {
+				if (part.type === "image") {
+					content.push(toImageContent(part));
+				}
+			}
+		} else {
+			throw new Error(`Unsupported content block type in user message: ${block.type}`);
+		}
+	}
+
+	if (content.length) {
+		messages.push({ role: "user", content });
+	}
+	return messages;
+}
+
+/**
+ * Converts an Anthropic image block into an image_url content part.
+ */
+function toImageContent(block: AnthropicImageBlock): MessageContent {
+	const url =
+		block.source.type === "base64" ? `data:${block.source.media_type};base64,${block.source.data}` : block.source.url;
+	return { type: "image_url", image_url: { url } };
+}
+
+/**
+ * Converts an Anthropic tool_choice into its chat completions equivalent.
+ */
+function toChatToolChoice(toolChoice: AnthropicMessagesRequest["tool_choice"]): ToolChoice | undefined {
+	switch (toolChoice?.type) {
+		case "auto":
+			return "auto";
+		case "any":
+			return "required";
+		case "none":
+			return "none";
+		case "tool":
+			return toolChoice.name ? { type: "function", function: { name: toolChoice.name } } : "required";
+		default:
+			return undefined;
+	}
+}
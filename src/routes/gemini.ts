@@ -2,6 +2,7 @@ import { Hono } from "hono";
 import { Env } from "../types";
 import { AuthManager } from "../auth";
 import { CODE_ASSIST_ENDPOINT, CODE_ASSIST_API_VERSION } from "../config";
+import { ResponseCache } from "../helpers/response-cache";
 
 /**
  * Native Gemini API routes - Forward requests directly to Gemini API
@@ -106,6 +107,22 @@ GeminiRoute.post("/models/:modelAction", async (c) => {
 
 		console.log("Native Gemini generate content request (colon syntax):", { model, action, requestBody });
 
+		// Deterministic requests are answered from the response cache when it is enabled
+		const responseCache = new ResponseCache(c.env);
+		const cacheKey = await responseCache.getKey(
+			`native:${action}`,
+			{ model, request: requestBody },
+			requestBody.generationConfig?.temperature
+		);
+		// Streamed responses are cached as their SSE body, others as the response JSON
+		const cached = await responseCache.get<Record<string, unknown> | string>(cacheKey, c.req.header("Cache-Control"));
+		const cacheHeaders = ResponseCache.statusHeaders(cacheKey, cached);
+		if (cached) {
+			return action === "streamGenerateContent"
+				? new Response(String(cached), { headers: { ...nativeStreamHeaders(), ...cacheHeaders } })
+				: c.json(cached, 200, cacheHeaders);
+		}
+
 		const authManager = new AuthManager(c.env);
 		await authManager.initializeAuth();
 
@@ -162,19 +179,16 @@ GeminiRoute.post("/models/:modelAction", async (c) => {
 				}
 
 				if (isStreaming) {
-					return new Response(retryResponse.body, {
-						headers: {
-							"Content-Type": "text/event-stream",
-							"Cache-Control": "no-cache",
-							Connection: "keep-alive",
-							"Access-Control-Allow-Origin": "*",
-							"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-							"Access-Control-Allow-Headers": "Content-Type, Authorization, x-goog-api-key"
-						}
+					if (!retryResponse.body) {
+						throw new Error("Response has no body");
+					}
+					return new Response(responseCache.recordStream(retryResponse.body, cacheKey), {
+						headers: { ...nativeStreamHeaders(), ...cacheHeaders }
 					});
 				} else {
 					const data = await retryResponse.json();
-					return c.json(data);
+					await responseCache.put(cacheKey, data);
+					return c.json(data, 200, cacheHeaders);
 				}
 			}
 
@@ -189,19 +203,13 @@ GeminiRoute.post("/models/:modelAction", async (c) => {
 			}
 
 			// Return the streaming response directly without modification
-			return new Response(response.body, {
-				headers: {
-					"Content-Type": "text/event-stream",
-					"Cache-Control": "no-cache",
-					Connection: "keep-alive",
-					"Access-Control-Allow-Origin": "*",
-					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-					"Access-Control-Allow-Headers": "Content-Type, Authorization, x-goog-api-key"
-				}
+			return new Response(responseCache.recordStream(response.body, cacheKey), {
+				headers: { ...nativeStreamHeaders(), ...cacheHeaders }
 			});
 		} else {
 			const data = await response.json();
-			return c.json(data);
+			await responseCache.put(cacheKey, data);
+			return c.json(data, 200, cacheHeaders);
 		}
 	} catch (error: unknown) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
@@ -221,6 +229,19 @@ GeminiRoute.post("/models/:model/generateContent", async (c) => {
 
 		console.log("Native Gemini generate content request:", { model, requestBody });
 
+		// Deterministic requests are answered from the response cache when it is enabled
+		const responseCache = new ResponseCache(c.env);
+		const cacheKey = await responseCache.getKey(
+			"native:generateContent",
+			{ model, request: requestBody },
+			requestBody.generationConfig?.temperature
+		);
+		const cached = await responseCache.get<Record<string, unknown>>(cacheKey, c.req.header("Cache-Control"));
+		const cacheHeaders = ResponseCache.statusHeaders(cacheKey, cached);
+		if (cached) {
+			return c.json(cached, 200, cacheHeaders);
+		}
+
 		const authManager = new AuthManager(c.env);
 		await authManager.initializeAuth();
 
@@ -271,7 +292,8 @@ GeminiRoute.post("/models/:model/generateContent", async (c) => {
 				}
 
 				const data = await retryResponse.json();
-				return c.json(data);
+				await responseCache.put(cacheKey, data);
+				return c.json(data, 200, cacheHeaders);
 			}
 
 			const errorText = await response.text();
@@ -280,7 +302,8 @@ GeminiRoute.post("/models/:model/generateContent", async (c) => {
 		}
 
 		const data = await response.json();
-		return c.json(data);
+		await responseCache.put(cacheKey, data);
+		return c.json(data, 200, cacheHeaders);
 	} catch (error: unknown) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
 		console.error("Generate content error:", errorMessage);
@@ -298,6 +321,19 @@ GeminiRoute.post("/models/:model/streamGenerateContent", async (c) => {
 
 		console.log("Native Gemini stream generate content request:", { model, requestBody });
 
+		// Deterministic requests are answered from the response cache when it is enabled
+		const responseCache = new ResponseCache(c.env);
+		const cacheKey = await responseCache.getKey(
+			"native:streamGenerateContent",
+			{ model, request: requestBody },
+			requestBody.generationConfig?.temperature
+		);
+		const cached = await responseCache.get<string>(cacheKey, c.req.header("Cache-Control"));
+		const cacheHeaders = ResponseCache.statusHeaders(cacheKey, cached);
+		if (cached) {
+			return new Response(cached, { headers: { ...nativeStreamHeaders(), ...cacheHeaders } });
+		}
+
 		const authManager = new AuthManager(c.env);
 		await authManager.initializeAuth();
 
@@ -342,16 +378,13 @@ GeminiRoute.post("/models/:model/streamGenerateContent", async (c) => {
 					return c.json({ error: `Stream generate content failed: ${retryResponse.status}` }, retryResponse.status);
 				}
 
+				if (!retryResponse.body) {
+					throw new Error("Response has no body");
+				}
+
 				// Return the streaming response directly
-				return new Response(retryResponse.body, {
-					headers: {
-						"Content-Type": "text/event-stream",
-						"Cache-Control": "no-cache",
-						Connection: "keep-alive",
-						"Access-Control-Allow-Origin": "*",
-						"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-						"Access-Control-Allow-Headers": "Content-Type, Authorization, x-goog-api-key"
-					}
+				return new Response(responseCache.recordStream(retryResponse.body, cacheKey), {
+					headers: { ...nativeStreamHeaders(), ...cacheHeaders }
 				});
 			}
 
@@ -365,15 +398,8 @@ GeminiRoute.post("/models/:model/streamGenerateContent", async (c) => {
 		}
 
 		// Return the streaming response directly without modification
-		return new Response(response.body, {
-			headers: {
-				"Content-Type": "text/event-stream",
-				"Cache-Control": "no-cache",
-				Connection: "keep-alive",
-				"Access-Control-Allow-Origin": "*",
-				"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-				"Access-Control-Allow-Headers": "Content-Type, Authorization"
-			}
+		return new Response(responseCache.recordStream(response.body, cacheKey), {
+			headers: { ...nativeStreamHeaders(), ...cacheHeaders }
 		});
 	} catch (error: unknown) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
@@ -577,6 +603,20 @@ GeminiRoute.all("/*", async (c) => {
 	}
 });
 
+/**
+ * Headers for server-sent event responses from the native routes.
+ */
+function nativeStreamHeaders(): Record<string, string> {
+	return {
+		"Content-Type": "text/event-stream",
+		"Cache-Control": "no-cache",
+		Connection: "keep-alive",
+		"Access-Control-Allow-Origin": "*",
+		"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+		"Access-Control-Allow-Headers": "Content-Type, Authorization, x-goog-api-key"
+	};
+}
+
 /**
  * Helper function to discover project ID
  */
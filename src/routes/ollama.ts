@@ -0,0 +1,447 @@
+import { Hono, Context } from "hono";
+import { ContentfulStatusCode } from "hono/utils/http-status";
+import {
+	Env,
+	ChatMessage,
+	MessageContent,
+	ToolCall,
+	StreamContentOptions,
+	OllamaChatRequest,
+	OllamaGenerateRequest,
+	OllamaMessage,
+	OllamaOptions
+} from "../types";
+import { geminiCliModels, getAllModelIds } from "../models";
+import {
+	DEFAULT_THINKING_BUDGET,
+	TOOL_CALL_ID_PREFIX,
+	FILL_IN_THE_MIDDLE_MARKER,
+	FILL_IN_THE_MIDDLE_SYSTEM_PROMPT,
+	OLLAMA_API_VERSION
+} from "../constants";
+import { AuthManager } from "../auth";
+import { GeminiApiClient } from "../gemini-client";
+import { OllamaResponseBuilder, OllamaEndpoint, createOllamaStreamTransformer } from "../ollama-stream-transformer";
+import { ToolConverter } from "../helpers/tool-converter";
+import { ModelResolver } from "../helpers/model-resolver";
+import { JsonSchemaConverter } from "../helpers/json-schema-converter";
+import { GenerationConfigValidator } from "../helpers/generation-config-validator";
+import { base64ImageToDataUrl } from "../utils/image-utils";
+import { toErrorData, retryAfterHeaders } from "../utils/error-utils";
+import { readJsonBody } from "../utils/request-utils";
+
+/**
+ * Ollama-compatible API routes, so local-first clients can use Gemini models without changes.
+ * Streaming responses are newline-delimited JSON, as in Ollama.
+ */
+export const OllamaRoute = new Hono<{ Bindings: Env }>();
+
+// Version endpoint, used by clients to detect an Ollama server
+OllamaRoute.get("/version", async (c) => {
+	return c.json({ version: OLLAMA_API_VERSION });
+});
+
+// List available models
+OllamaRoute.get("/tags", async (c) => {
+	const modifiedAt = new Date().toISOString();
+	const models = getAllModelIds().map((modelId) => ({
+		name: modelId,
+		model: modelId,
+		modified_at: modifiedAt,
+		size: 0,
+		digest: "",
+		details: getModelDetails()
+	}));
+	const aliases = Object.keys(new ModelResolver(c.env).getAliases()).map((alias) => ({
+		name: alias,
+		model: alias,
+		modified_at: modifiedAt,
+		size: 0,
+		digest: "",
+		details: getModelDetails()
+	}));
+
+	return c.json({ models: [...models, ...aliases] });
+});
+
+// Show model information
+OllamaRoute.post("/show", async (c) => {
+	try {
+		const body = await readJsonBody<{ model?: string; name?: string }>(c.req);
+		const requestedModel = normalizeModelName(body.model || body.name || "");
+		const resolvedModel = new ModelResolver(c.env).resolve(requestedModel);
+		if (!resolvedModel) {
+			return c.json({ error: `model '${requestedModel}' not found` }, 404);
+		}
+		const modelInfo = geminiCliModels[resolvedModel.model];
+
+		return c.json({
+			license: "",
+			modelfile: "",
+			parameters: "",
+			template: "{{ .Prompt }}",
+			details: getModelDetails(),
+			model_info: {
+				"general.architecture": "gemini",
+				"gemini.context_length": modelInfo.contextWindow
+			},
+			capabilities: [
+				"completion",
+				"tools",
+				...(modelInfo.supportsImages ? ["vision"] : []),
+				...(modelInfo.thinking ? ["thinking"] : [])
+			]
+		});
+	} catch (e: unknown) {
+		console.error("Top-level error:", e);
+		const { status, body: errorBody, headers } = toOllamaErrorResponse(e);
+		return c.json(errorBody, status, headers);
+	}
+});
+
+// Chat endpoint
+OllamaRoute.post("/chat", async (c) => {
+	try {
+		console.log("Ollama chat request received");
+		const body = await readJsonBody<OllamaChatRequest>(c.req);
+		const requestedModel = normalizeModelName(body.model || "");
+		const resolvedModel = new ModelResolver(c.env).resolve(requestedModel);
+		if (!resolvedModel) {
+			return c.json({ error: `model '${requestedModel}' not found` }, 404);
+		}
+		const model = resolvedModel.model;
+		if (!Array.isArray(body.messages)) {
+			return c.json({ error: "messages must be an array" }, 400);
+		}
+
+		let messages: ChatMessage[];
+		try {
+			messages = toChatMessages(body.messages);
+		} catch (conversionError: unknown) {
+			const errorMessage = conversionError instanceof Error ? conversionError.message : String(conversionError);
+			return c.json({ error: errorMessage }, 400);
+		}
+
+		// Extract the system prompt
+		const systemPrompt = body.messages
+			.filter((msg) => msg.role === "system")
+			.map((msg) => msg.content)
+			.join("\n\n");
+		const otherMessages = messages.filter((msg) => msg.role !== "system");
+
+		// Validate and translate tools into Gemini function declarations
+		if (body.tools !== undefined) {
+			const toolsError = ToolConverter.validateTools(body.tools);
+			if (toolsError) {
+				return c.json({ error: toolsError }, 400);
+			}
+		}
+		const tools = body.tools?.length ? ToolConverter.toGeminiTools(body.tools) : undefined;
+
+		const generationConfig = toGenerationConfig(body.options, body.format);
+		if (typeof generationConfig === "string") {
+			return c.json({ error: generationConfig }, 400);
+		}
+
+		return await generate(c, model, body.model, "chat", systemPrompt, otherMessages, body.stream !== false, {
+			...toThinkingOptions(c.env, body.think, resolvedModel.thinkingBudget),
+			generationConfig,
+			tools: resolvedModel.search ? ToolConverter.withGoogleSearch(tools) : tools
+		});
+	} catch (e: unknown) {
+		console.error("Top-level error:", e);
+		const { status, body: errorBody, headers } = toOllamaErrorResponse(e);
+		return c.json(errorBody, status, headers);
+	}
+});
+
+// Generate endpoint
+OllamaRoute.post("/generate", async (c) => {
+	try {
+		console.log("Ollama generate request received");
+		const body = await readJsonBody<OllamaGenerateRequest>(c.req);
+		const requestedModel = normalizeModelName(body.model || "");
+		const resolvedModel = new ModelResolver(c.env).resolve(requestedModel);
+		if (!resolvedModel) {
+			return c.json({ error: `model '${requestedModel}' not found` }, 404);
+		}
+		const model = resolvedModel.model;
+
+		// An empty prompt only loads the model in Ollama, so answer with an empty, finished response
+		if (!body.prompt) {
+			return c.json({
+				model: body.model,
+				created_at: new Date().toISOString(),
+				response: "",
+				done: true,
+				done_reason: "load"
+			});
+		}
+
+		let images: MessageContent[];
+		try {
+			images = (body.images || []).map(toImageContent);
+		} catch (conversionError: unknown) {
+			const errorMessage = conversionError instanceof Error ? conversionError.message : String(conversionError);
+			return c.json({ error: errorMessage }, 400);
+		}
+
+		// With a suffix the prompt becomes a fill-in-the-middle request
+		const prompt = body.suffix ? `${body.prompt}${FILL_IN_THE_MIDDLE_MARKER}${body.suffix}` : body.prompt;
+		const systemPrompt = [body.system, body.suffix ? FILL_IN_THE_MIDDLE_SYSTEM_PROMPT : ""]
+			.filter(Boolean)
+			.join("\n\n");
+		const messages: ChatMessage[] = [
+			{ role: "user", content: images.length ? [{ type: "text", text: prompt }, ...images] : prompt }
+		];
+
+		const generationConfig = toGenerationConfig(body.options, body.format);
+		if (typeof generationConfig === "string") {
+			return c.json({ error: generationConfig }, 400);
+		}
+
+		return await generate(c, model, body.model, "generate", systemPrompt, messages, body.stream !== false, {
+			...toThinkingOptions(c.env, body.think, resolvedModel.thinkingBudget),
+			generationConfig,
+			tools: resolvedModel.search ? ToolConverter.withGoogleSearch(undefined) : undefined
+		});
+	} catch (e: unknown) {
+		console.error("Top-level error:", e);
+		const { status, body: errorBody, headers } = toOllamaErrorResponse(e);
+		return c.json(errorBody, status, headers);
+	}
+});
+
+/**
+ * Runs a Gemini request and returns it as an Ollama NDJSON stream or a single JSON response.
+ * @param requestedModel - The model name the client sent, which responses echo
+ */
+async function generate(
+	c: Context<{ Bindings: Env }>,
+	model: string,
+	requestedModel: string,
+	endpoint: OllamaEndpoint,
+	systemPrompt: string,
+	messages: ChatMessage[],
+	stream: boolean,
+	options: StreamContentOptions
+): Promise<Response> {
+	const hasImages = messages.some(
+		(msg) => Array.isArray(msg.content) && msg.content.some((content) => content.type === "image_url")
+	);
+	if (hasImages && !geminiCliModels[model].supportsImages) {
+		return c.json({ error: `model '${model}' does not support image inputs` }, 400);
+	}
+
+	// Initialize services
+	const authManager = new AuthManager(c.env);
+	const geminiClient = new GeminiApiClient(c.env, authManager);
+
+	// Test authentication first
+	try {
+		await authManager.initializeAuth();
+		console.log("Authentication successful");
+	} catch (authError: unknown) {
+		const errorMessage = authError instanceof Error ? authError.message : String(authError);
+		console.error("Authentication failed:", errorMessage);
+		return c.json({ error: "Authentication failed: " + errorMessage }, 401);
+	}
+
+	if (stream) {
+		// Streaming response
+		const { readable, writable } = new TransformStream();
+		const writer = writable.getWriter();
+		const ollamaStream = readable.pipeThrough(createOllamaStreamTransformer(requestedModel, endpoint));
+
+		// Asynchronously pipe data from Gemini to transformer
+		(async () => {
+			try {
+				console.log("Starting Ollama stream generation");
+				const geminiStream = geminiClient.streamContent(model, systemPrompt, messages, options);
+
+				for await (const chunk of geminiStream) {
+					await writer.write(chunk);
+				}
+				console.log("Ollama stream completed successfully");
+				await writer.close();
+			} catch (streamError: unknown) {
+				const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+				console.error("Stream error:", errorMessage);
+				// Report the error in-band, since the response status has already been sent
+				await writer.write({ type: "error", data: toErrorData(streamError) });
+				await writer.close();
+			}
+		})();
+
+		// Return streaming response
+		return new Response(ollamaStream, {
+			headers: {
+				"Content-Type": "application/x-ndjson",
+				"Cache-Control": "no-cache",
+				"Access-Control-Allow-Origin": "*",
+				"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+				"Access-Control-Allow-Headers": "Content-Type, Authorization"
+			}
+		});
+	}
+
+	// Non-streaming response
+	try {
+		const builder = new OllamaResponseBuilder(requestedModel, endpoint);
+		for await (const chunk of geminiClient.streamContent(model, systemPrompt, messages, options)) {
+			builder.handleChunk(chunk);
+		}
+		return c.json(builder.getResponse());
+	} catch (completionError: unknown) {
+		const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+		console.error("Completion error:", errorMessage);
+		const { status, body: errorBody, headers } = toOllamaErrorResponse(completionError);
+		return c.json(errorBody, status, headers);
+	}
+}
+
+/**
+ * Converts any error raised while serving a request into an Ollama error response,
+ * keeping the upstream status and forwarding the retry delay as a Retry-After header.
+ */
+function toOllamaErrorResponse(error: unknown) {
+	const errorData = toErrorData(error);
+	return {
+		status: errorData.status as ContentfulStatusCode,
+		body: { error: errorData.message },
+		headers: retryAfterHeaders(error)
+	};
+}
+
+/**
+ * Strips Ollama's default ":latest" tag from a model name.
+ */
+function normalizeModelName(model: string): string {
+	return model.replace(/:latest$/, "");
+}
+
+/**
+ * Model details in the Ollama format. Gemini models are remote, so there is no size or quantization.
+ */
+function getModelDetails() {
+	return {
+		parent_model: "",
+		format: "",
+		family: "gemini",
+		families: ["gemini"],
+		parameter_size: "",
+		quantization_level: ""
+	};
+}
+
+/**
+ * Maps the think flag onto reasoning options. Without it, ENABLE_REAL_THINKING decides as for other routes.
+ * @param thinkingBudget - Thinking budget from the model name's alias or suffix, if any
+ */
+function toThinkingOptions(env: Env, think: boolean | undefined, thinkingBudget?: number): StreamContentOptions {
+	return {
+		includeReasoning: think ?? env.ENABLE_REAL_THINKING === "true",
+		thinkingBudget: thinkingBudget ?? DEFAULT_THINKING_BUDGET,
+		// Clients that ask for thinking read it from the separate thinking field
+		...(think && { streamThinkingAsContent: false })
+	};
+}
+
+/**
+ * Converts Ollama options and format into a Gemini generation config.
+ * @returns The generation config, or an error message if an option or the format schema is invalid
+ */
+function toGenerationConfig(
+	options: OllamaOptions | undefined,
+	format: OllamaGenerateRequest["format"]
+): Record<string, unknown> | string {
+	const generationConfig: Record<string, unknown> = {
+		temperature: options?.temperature,
+		topP: options?.top_p,
+		topK: options?.top_k,
+		maxOutputTokens: options?.num_predict !== undefined && options.num_predict >= 0 ? options.num_predict : undefined,
+		stopSequences: options?.stop?.length ? options.stop : undefined,
+		presencePenalty: options?.presence_penalty,
+		frequencyPenalty: options?.frequency_penalty,
+		seed: options?.seed
+	};
+
+	const samplingValidation = GenerationConfigValidator.validateSamplingParameters(generationConfig);
+	if (!samplingValidation.isValid) {
+		return samplingValidation.error || "Invalid options";
+	}
+
+	// format is either "json" or a JSON schema for structured output
+	if (format) {
+		generationConfig.responseMimeType = "application/json";
+		if (typeof format === "object") {
+			const conversion = JsonSchemaConverter.convert(format);
+			if (!conversion.isValid) {
+				return `Invalid format schema: ${conversion.error}`;
+			}
+			generationConfig.responseSchema = conversion.schema;
+		}
+	}
+
+	return Object.fromEntries(Object.entries(generationConfig).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Converts Ollama messages into chat messages.
+ * Tool calls keep the id returned with them, so cached thought signatures still match; calls without one get
+ * a generated id. Tool results are matched by tool_call_id, then by tool_name, or else in the order the calls were made.
+ */
+function toChatMessages(messages: OllamaMessage[]): ChatMessage[] {
+	const result: ChatMessage[] = [];
+	let pendingToolCalls: ToolCall[] = [];
+
+	for (const msg of messages) {
+		if (!["system", "user", "assistant", "tool"].includes(msg.role)) {
+			throw new Error(`Unsupported message role: ${msg.role}`);
+		}
+
+		if (msg.role === "tool") {
+			const matchIndex = msg.tool_call_id
+				? pendingToolCalls.findIndex((toolCall) => toolCall.id === msg.tool_call_id)
+				: msg.tool_name
+					? pendingToolCalls.findIndex((toolCall) => toolCall.function.name === msg.tool_name)
+					: 0;
+			const toolCall = pendingToolCalls[matchIndex];
+			if (!toolCall) {
+				throw new Error("Tool message does not match any preceding tool call");
+			}
+			pendingToolCalls = pendingToolCalls.filter((pending) => pending !== toolCall);
+			result.push({ role: "tool", tool_call_id: toolCall.id, content: msg.content });
+			continue;
+		}
+
+		if (msg.role === "assistant" && msg.tool_calls?.length) {
+			pendingToolCalls = msg.tool_calls.map((toolCall) => ({
+				id: toolCall.id || `${TOOL_CALL_ID_PREFIX}${crypto.randomUUID()}`,
+				type: "function",
+				function: { name: toolCall.function.name, arguments: JSON.stringify(toolCall.function.arguments ?? {}) }
+			}));
+			result.push({ role: "assistant", content: msg.content || null, tool_calls: pendingToolCalls });
+			continue;
+		}
+
+		const images = (msg.images || []).map(toImageContent);
+		result.push({
+			role: msg.role,
+			content: images.length ? [{ type: "text", text: msg.content }, ...images] : msg.content
+		});
+	}
+
+	return result;
+}
+
+/**
+ * Converts a raw base64 Ollama image into an image_url content part.
+ */
+function toImageContent(base64: string): MessageContent {
+	const url = base64ImageToDataUrl(base64);
+	if (!url) {
+		throw new Error("Unsupported image format, images must be base64 encoded JPEG, PNG, GIF or WebP");
+	}
+	return { type: "image_url", image_url: { url } };
+}
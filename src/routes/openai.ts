@@ -1,11 +1,53 @@
 import { Hono } from "hono";
-import { Env, ChatCompletionRequest, ChatCompletionResponse } from "../types";
-import { geminiCliModels, DEFAULT_MODEL, getAllModelIds } from "../models";
+import {
+	Env,
+	ChatCompletionRequest,
+	ChatCompletionResponse,
+	TextCompletionRequest,
+	TextCompletionResponse,
+	ChatMessage,
+	UsageData,
+	StreamChunk,
+	CompletionResult,
+	EmbeddingRequest,
+	EmbeddingResponse,
+	Tool
+} from "../types";
+import {
+	geminiCliModels,
+	geminiEmbeddingModels,
+	DEFAULT_MODEL,
+	DEFAULT_EMBEDDING_MODEL,
+	getAllModelIds,
+	getAllEmbeddingModelIds
+} from "../models";
 import { OPENAI_MODEL_OWNER } from "../config";
-import { DEFAULT_THINKING_BUDGET } from "../constants";
+import {
+	DEFAULT_THINKING_BUDGET,
+	MAX_CANDIDATE_COUNT,
+	MAX_TOP_LOGPROBS,
+	PARAMETER_WARNINGS_HEADER,
+	TEXT_COMPLETION_OBJECT,
+	TEXT_COMPLETION_SYSTEM_PROMPT,
+	FILL_IN_THE_MIDDLE_MARKER,
+	FILL_IN_THE_MIDDLE_SYSTEM_PROMPT
+} from "../constants";
 import { AuthManager } from "../auth";
 import { GeminiApiClient } from "../gemini-client";
-import { createOpenAIStreamTransformer } from "../stream-transformer";
+import { createOpenAIStreamTransformer, createTextCompletionStreamTransformer } from "../stream-transformer";
+import { ToolConverter } from "../helpers/tool-converter";
+import { ModelResolver } from "../helpers/model-resolver";
+import { ResponseCache } from "../helpers/response-cache";
+import { RemoteImageFetcher } from "../helpers/remote-image-fetcher";
+import { JsonSchemaConverter } from "../helpers/json-schema-converter";
+import { GenerationConfigValidator } from "../helpers/generation-config-validator";
+import { mapFinishReason } from "../utils/finish-reason";
+import { toOpenAIUsage, addUsage } from "../utils/usage-utils";
+import { encodeEmbeddingBase64, estimateEmbeddingTokens } from "../utils/embedding-utils";
+import { openAIErrorBody, invalidRequestError, toOpenAIErrorResponse, toErrorData } from "../utils/error-utils";
+import { readJsonBody } from "../utils/request-utils";
+import { validateAudioInput } from "../utils/audio-utils";
+import { validateFileInput } from "../utils/file-utils";
 
 /**
  * OpenAI-compatible API routes for models and chat completions.
@@ -18,7 +60,10 @@ OpenAIRoute.get("/", async (c) => {
 		message: "OpenAI-compatible API",
 		endpoints: {
 			models: "/v1/models",
-			chat_completions: "/v1/chat/completions"
+			chat_completions: "/v1/chat/completions",
+			completions: "/v1/completions",
+			embeddings: "/v1/embeddings",
+			responses: "/v1/responses"
 		},
 		version: "1.0.0"
 	});
@@ -26,12 +71,36 @@ OpenAIRoute.get("/", async (c) => {
 
 // List available models
 OpenAIRoute.get("/models", async (c) => {
-	const modelData = getAllModelIds().map((modelId) => ({
+	const created = Math.floor(Date.now() / 1000);
+	const chatModelData = getAllModelIds().map((modelId) => {
+		const modelInfo = geminiCliModels[modelId];
+		return {
+			id: modelId,
+			object: "model",
+			created,
+			owned_by: OPENAI_MODEL_OWNER,
+			// Non-standard field so clients can discover which inputs each model accepts
+			capabilities: {
+				vision: modelInfo.supportsImages,
+				audio: modelInfo.supportsAudio,
+				documents: modelInfo.supportsDocuments,
+				thinking: modelInfo.thinking
+			}
+		};
+	});
+	const embeddingModelData = getAllEmbeddingModelIds().map((modelId) => ({
 		id: modelId,
 		object: "model",
-		created: Math.floor(Date.now() / 1000),
+		created,
 		owned_by: OPENAI_MODEL_OWNER
 	}));
+	// Aliases from MODEL_ALIASES are listed with the capabilities of the model they resolve to
+	const aliasModelData = Object.entries(new ModelResolver(c.env).getAliases()).map(([alias, resolved]) => ({
+		...chatModelData.find((modelData) => modelData.id === resolved.model),
+		id: alias,
+		root: resolved.model
+	}));
+	const modelData = [...chatModelData, ...aliasModelData, ...embeddingModelData];
 
 	return c.json({
 		object: "list",
@@ -43,8 +112,13 @@ OpenAIRoute.get("/models", async (c) => {
 OpenAIRoute.post("/chat/completions", async (c) => {
 	try {
 		console.log("Chat completions request received");
-		const body = await c.req.json<ChatCompletionRequest>();
-		const model = body.model || DEFAULT_MODEL;
+		const body = await readJsonBody<ChatCompletionRequest>(c.req);
+		// Resolve aliases and suffixes such as ":thinking-high" to a Gemini model.
+		// Responses echo the requested name, as clients match them against the model they asked for.
+		const requestedModel = body.model || DEFAULT_MODEL;
+		const modelResolver = new ModelResolver(c.env);
+		const resolvedModel = modelResolver.resolve(requestedModel);
+		const model = resolvedModel?.model || body.model;
 		const messages = body.messages || [];
 		// OpenAI API compatibility: stream defaults to false unless explicitly set to true
 		const stream = body.stream === true;
@@ -52,7 +126,45 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 		// Check environment settings for real thinking
 		const isRealThinkingEnabled = c.env.ENABLE_REAL_THINKING === "true";
 		const includeReasoning = isRealThinkingEnabled; // Automatically enable reasoning when real thinking is enabled
-		const thinkingBudget = body.thinking_budget ?? DEFAULT_THINKING_BUDGET; // Default to dynamic allocation
+
+		if (body.reasoning_effort !== undefined && !GenerationConfigValidator.isReasoningEffort(body.reasoning_effort)) {
+			return c.json(
+				invalidRequestError("reasoning_effort must be one of minimal, low, medium or high", "reasoning_effort"),
+				400
+			);
+		}
+		// An explicit thinking_budget takes precedence over reasoning_effort, which overrides the model name's budget
+		const thinkingBudget =
+			body.thinking_budget ??
+			(body.reasoning_effort
+				? GenerationConfigValidator.thinkingBudgetForEffort(model, body.reasoning_effort)
+				: (resolvedModel?.thinkingBudget ?? DEFAULT_THINKING_BUDGET)); // Default to dynamic allocation
+
+		// Translate OpenAI response_format into Gemini structured output settings
+		let responseMimeType = body.response_mime_type;
+		let responseSchema = body.response_schema;
+		if (body.response_format) {
+			const responseFormat = body.response_format;
+			if (!["text", "json_object", "json_schema"].includes(responseFormat.type)) {
+				return c.json(
+					invalidRequestError(`Unsupported response_format type: ${responseFormat.type}`, "response_format"),
+					400
+				);
+			}
+			if (responseFormat.type !== "text") {
+				responseMimeType = responseMimeType || "application/json";
+			}
+			if (responseFormat.type === "json_schema" && !responseSchema) {
+				const conversion = JsonSchemaConverter.convert(responseFormat.json_schema?.schema);
+				if (!conversion.isValid) {
+					return c.json(
+						invalidRequestError(`Invalid response_format.json_schema: ${conversion.error}`, "response_format"),
+						400
+					);
+				}
+				responseSchema = conversion.schema;
+			}
+		}
 
 		// Extract and normalize parameters for Gemini API
 		const generationConfig = {
@@ -60,10 +172,15 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			topP: body.top_p,
 			topK: body.top_k,
 			maxOutputTokens: body.max_output_tokens || body.max_tokens,
+			presencePenalty: body.presence_penalty,
+			frequencyPenalty: body.frequency_penalty,
+			seed: body.seed,
 			candidateCount: body.candidate_count || body.n,
 			stopSequences: body.stop_sequences || (body.stop ? (Array.isArray(body.stop) ? body.stop : [body.stop]) : undefined),
-			responseMimeType: body.response_mime_type,
-			responseSchema: body.response_schema,
+			responseMimeType,
+			responseSchema,
+			responseLogprobs: body.logprobs || undefined,
+			logprobs: body.logprobs && body.top_logprobs ? body.top_logprobs : undefined
 		};
 
 		// Filter out undefined values
@@ -71,12 +188,82 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			Object.entries(generationConfig).filter(([_, value]) => value !== undefined)
 		);
 
+		// Validate the number of choices requested
+		const candidateCount = body.candidate_count ?? body.n;
+		if (
+			candidateCount !== undefined &&
+			(!Number.isInteger(candidateCount) || candidateCount < 1 || candidateCount > MAX_CANDIDATE_COUNT)
+		) {
+			return c.json(invalidRequestError(`n must be an integer between 1 and ${MAX_CANDIDATE_COUNT}`, "n"), 400);
+		}
+
+		// Validate sampling parameters and collect warnings for the ones Gemini cannot honor
+		const samplingValidation = GenerationConfigValidator.validateSamplingParameters(generationConfig, {
+			logit_bias: body.logit_bias
+		});
+		if (!samplingValidation.isValid) {
+			return c.json(invalidRequestError(samplingValidation.error, samplingValidation.param), 400);
+		}
+		const warningHeaders: Record<string, string> = samplingValidation.warnings.length
+			? { [PARAMETER_WARNINGS_HEADER]: samplingValidation.warnings.join("; ") }
+			: {};
+
+		// Validate log probability options
+		if (body.top_logprobs !== undefined) {
+			if (!Number.isInteger(body.top_logprobs) || body.top_logprobs < 0 || body.top_logprobs > MAX_TOP_LOGPROBS) {
+				return c.json(
+					invalidRequestError(`top_logprobs must be an integer between 0 and ${MAX_TOP_LOGPROBS}`, "top_logprobs"),
+					400
+				);
+			}
+			if (!body.logprobs) {
+				return c.json(invalidRequestError("logprobs must be set to true when top_logprobs is used", "logprobs"), 400);
+			}
+		}
+
+		if (body.safety_preset !== undefined && !GenerationConfigValidator.isSafetyPreset(body.safety_preset)) {
+			return c.json(
+				invalidRequestError(
+					"safety_preset must be one of off, block_none, block_few, block_some or block_most",
+					"safety_preset"
+				),
+				400
+			);
+		}
+
+		// Validate and translate OpenAI tools into Gemini function declarations
+		if (body.tools !== undefined) {
+			const toolsError = ToolConverter.validateTools(body.tools);
+			if (toolsError) {
+				return c.json(invalidRequestError(toolsError, "tools"), 400);
+			}
+		}
+		const functionToolDefinitions = (body.tools || []).filter(
+			(tool): tool is Tool => !ToolConverter.isGoogleSearchTool(tool) && !ToolConverter.isCodeExecutionTool(tool)
+		);
+		const functionTools = functionToolDefinitions.length
+			? ToolConverter.toGeminiTools(functionToolDefinitions)
+			: undefined;
+		const toolConfig = functionTools ? ToolConverter.toGeminiToolConfig(body.tool_choice) : undefined;
+
+		// Google Search is enabled by web_search_options, a googleSearch tool entry or the ":search" model suffix
+		const searchEnabled =
+			resolvedModel?.search ||
+			body.web_search_options !== undefined ||
+			!!body.tools?.some((tool) => ToolConverter.isGoogleSearchTool(tool));
+		const searchTools = searchEnabled ? ToolConverter.withGoogleSearch(functionTools) : functionTools;
+		const tools = body.tools?.some((tool) => ToolConverter.isCodeExecutionTool(tool))
+			? ToolConverter.withCodeExecution(searchTools)
+			: searchTools;
+
 		const geminiConfig = {
 			includeReasoning,
 			thinkingBudget,
 			generationConfig: filteredConfig,
-			safetySettings: body.safety_settings,
+			safetySettings: GenerationConfigValidator.createSafetySettings(body.safety_preset, body.safety_settings),
 			systemInstruction: body.system_instruction,
+			tools,
+			toolConfig
 		};
 
 		console.log("Request body parsed:", {
@@ -85,21 +272,17 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			stream,
 			includeReasoning,
 			thinkingBudget,
-			generationConfig: filteredConfig
+			generationConfig: filteredConfig,
+			toolCount: body.tools?.length || 0
 		});
 
 		if (!messages.length) {
-			return c.json({ error: "messages is a required field" }, 400);
+			return c.json(invalidRequestError("messages is a required field", "messages"), 400);
 		}
 
 		// Validate model
-		if (!(model in geminiCliModels)) {
-			return c.json(
-				{
-					error: `Model '${model}' not found. Available models: ${getAllModelIds().join(", ")}`
-				},
-				400
-			);
+		if (!resolvedModel) {
+			return c.json(invalidRequestError(modelResolver.unknownModelMessage(requestedModel), "model"), 400);
 		}
 
 		// Check if the request contains images and validate model support
@@ -112,17 +295,52 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 
 		if (hasImages && !geminiCliModels[model].supportsImages) {
 			return c.json(
-				{
-					error: `Model '${model}' does not support image inputs. Please use a vision-capable model like gemini-2.5-pro or gemini-2.5-flash.`
-				},
+				invalidRequestError(
+					`Model '${model}' does not support image inputs. Please use a vision-capable model like gemini-2.5-pro or gemini-2.5-flash.`,
+					"messages"
+				),
 				400
 			);
 		}
 
-		// Extract system prompt and user/assistant messages
-		let systemPrompt = body.system_instruction || "";
+		// Check if the request contains audio and validate model support and audio data
+		const audioParts = messages.flatMap((msg) =>
+			Array.isArray(msg.content) ? msg.content.filter((content) => content.type === "input_audio") : []
+		);
+
+		if (audioParts.length && !geminiCliModels[model].supportsAudio) {
+			return c.json(invalidRequestError(`Model '${model}' does not support audio inputs.`, "messages"), 400);
+		}
+
+		for (const part of audioParts) {
+			const audioValidation = validateAudioInput(part.input_audio);
+			if (!audioValidation.isValid) {
+				return c.json(invalidRequestError(`Invalid audio: ${audioValidation.error}`, "messages"), 400);
+			}
+		}
+
+		// Check if the request contains document files and validate model support and file data
+		const fileParts = messages.flatMap((msg) =>
+			Array.isArray(msg.content) ? msg.content.filter((content) => content.type === "file") : []
+		);
+
+		if (fileParts.length && !geminiCliModels[model].supportsDocuments) {
+			return c.json(invalidRequestError(`Model '${model}' does not support file inputs.`, "messages"), 400);
+		}
+
+		for (const part of fileParts) {
+			const fileValidation = validateFileInput(part.file);
+			if (!fileValidation.isValid) {
+				return c.json(invalidRequestError(`Invalid file: ${fileValidation.error}`, "messages"), 400);
+			}
+		}
+
+		// Extract system prompt and user/assistant messages.
+		// body.system_instruction is passed separately and combined with it by the client.
+		let systemPrompt = "";
 		const otherMessages = messages.filter((msg) => {
-			if (msg.role === "system") {
+			// Developer messages replace system messages for newer OpenAI models
+			if (msg.role === "system" || msg.role === "developer") {
 				// Handle system messages with both string and array content
 				if (typeof msg.content === "string") {
 					systemPrompt = systemPrompt ? `${systemPrompt}\n\n${msg.content}` : msg.content;
@@ -139,46 +357,87 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			return true;
 		});
 
+		// Deterministic requests are answered from the response cache when it is enabled.
+		// Streams are cached as the chunks they were sent as, so a replay includes thinking the same way.
+		const responseCache = new ResponseCache(c.env);
+		const cacheKey = await responseCache.getKey(
+			stream ? "chat-stream" : "chat",
+			{
+				model,
+				systemPrompt,
+				messages: otherMessages,
+				...geminiConfig,
+				streamThinkingAsContent: stream && c.env.STREAM_THINKING_AS_CONTENT === "true"
+			},
+			body.temperature
+		);
+		const cacheControl = c.req.header("Cache-Control");
+		const cachedChunks = stream ? await responseCache.get<StreamChunk[]>(cacheKey, cacheControl) : null;
+		const cachedCompletion = stream ? null : await responseCache.get<CompletionResult>(cacheKey, cacheControl);
+		const isCached = !!(cachedChunks || cachedCompletion);
+		const cacheHeaders = ResponseCache.statusHeaders(cacheKey, isCached);
+
+		// Remote images are downloaded before the response starts, so a broken image URL is reported as a 400
+		const requestMessages = isCached
+			? otherMessages
+			: await new RemoteImageFetcher(c.env).inlineRemoteImages(otherMessages);
+
 		// Initialize services
 		const authManager = new AuthManager(c.env);
 		const geminiClient = new GeminiApiClient(c.env, authManager);
 
-		// Test authentication first
-		try {
-			await authManager.initializeAuth();
-			console.log("Authentication successful");
-		} catch (authError: unknown) {
-			const errorMessage = authError instanceof Error ? authError.message : String(authError);
-			console.error("Authentication failed:", errorMessage);
-			return c.json({ error: "Authentication failed: " + errorMessage }, 401);
+		// Test authentication first, unless the response comes from the cache
+		if (!isCached) {
+			try {
+				await authManager.initializeAuth();
+				console.log("Authentication successful");
+			} catch (authError: unknown) {
+				const errorMessage = authError instanceof Error ? authError.message : String(authError);
+				console.error("Authentication failed:", errorMessage);
+				return c.json(openAIErrorBody("Authentication failed: " + errorMessage, "authentication_error"), 401);
+			}
 		}
 
 		if (stream) {
 			// Streaming response
 			const { readable, writable } = new TransformStream();
 			const writer = writable.getWriter();
-			const openAITransformer = createOpenAIStreamTransformer(model);
+			const openAITransformer = createOpenAIStreamTransformer(requestedModel, {
+				includeUsage: body.stream_options?.include_usage === true,
+				includeSafetyRatings: body.include_safety_ratings === true
+			});
 			const openAIStream = readable.pipeThrough(openAITransformer);
 
 			// Asynchronously pipe data from Gemini to transformer
 			(async () => {
 				try {
+					if (cachedChunks) {
+						console.log("Replaying cached stream");
+						for (const chunk of cachedChunks) {
+							await writer.write(chunk);
+						}
+						await writer.close();
+						return;
+					}
+
 					console.log("Starting stream generation");
-					const geminiStream = geminiClient.streamContent(model, systemPrompt, otherMessages, geminiConfig);
+					const geminiStream = geminiClient.streamContent(model, systemPrompt, requestMessages, geminiConfig);
 
+					const streamedChunks: StreamChunk[] = [];
 					for await (const chunk of geminiStream) {
+						if (cacheKey) {
+							streamedChunks.push(chunk);
+						}
 						await writer.write(chunk);
 					}
 					console.log("Stream completed successfully");
+					await cacheStreamChunks(responseCache, cacheKey, streamedChunks);
 					await writer.close();
 				} catch (streamError: unknown) {
 					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
 					console.error("Stream error:", errorMessage);
-					// Try to write an error chunk before closing
-					await writer.write({
-						type: "text",
-						data: `Error: ${errorMessage}`
-					});
+					// Report the error in-band, since the response status has already been sent
+					await writer.write({ type: "error", data: toErrorData(streamError) });
 					await writer.close();
 				}
 			})();
@@ -192,52 +451,355 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 					Connection: "keep-alive",
 					"Access-Control-Allow-Origin": "*",
 					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-					"Access-Control-Allow-Headers": "Content-Type, Authorization"
+					"Access-Control-Allow-Headers": "Content-Type, Authorization",
+					...warningHeaders,
+					...cacheHeaders
 				}
 			});
 		} else {
 			// Non-streaming response
 			try {
 				console.log("Starting non-streaming completion");
-				const completion = await geminiClient.getCompletion(model, systemPrompt, otherMessages, geminiConfig);
+				// Thinking is returned as reasoning_content, so it is never mixed into the content
+				const completion =
+					cachedCompletion ||
+					(await geminiClient.getCompletion(model, systemPrompt, requestMessages, {
+						...geminiConfig,
+						streamThinkingAsContent: false
+					}));
+				if (!cachedCompletion) {
+					await cacheCompletion(responseCache, cacheKey, completion);
+				}
 
 				const response: ChatCompletionResponse = {
 					id: `chatcmpl-${crypto.randomUUID()}`,
 					object: "chat.completion",
 					created: Math.floor(Date.now() / 1000),
-					model: model,
-					choices: [
-						{
-							index: 0,
-							message: {
-								role: "assistant",
-								content: completion.content
-							},
-							finish_reason: "stop"
-						}
-					]
+					model: requestedModel,
+					choices: completion.choices.map((choice) => ({
+						index: choice.index,
+						message: {
+							role: "assistant",
+							content: choice.toolCalls && !choice.content ? null : choice.content,
+							...(choice.reasoning && { reasoning_content: choice.reasoning }),
+							...(choice.toolCalls && { tool_calls: choice.toolCalls }),
+							...(choice.annotations && { annotations: choice.annotations })
+						},
+						logprobs: body.logprobs ? { content: choice.logprobs || [], refusal: null } : null,
+						finish_reason: mapFinishReason(choice.finishReason, !!choice.toolCalls),
+						...(body.include_safety_ratings && { safety_ratings: choice.safetyRatings || [] })
+					}))
 				};
 
 				// Add usage information if available
 				if (completion.usage) {
-					response.usage = {
-						prompt_tokens: completion.usage.inputTokens,
-						completion_tokens: completion.usage.outputTokens,
-						total_tokens: completion.usage.inputTokens + completion.usage.outputTokens
-					};
+					response.usage = toOpenAIUsage(completion.usage);
 				}
 
 				console.log("Non-streaming completion successful");
-				return c.json(response);
+				return c.json(response, 200, { ...warningHeaders, ...cacheHeaders });
 			} catch (completionError: unknown) {
 				const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
 				console.error("Completion error:", errorMessage);
-				return c.json({ error: errorMessage }, 500);
+				const { status, body: errorBody, headers } = toOpenAIErrorResponse(completionError);
+				return c.json(errorBody, status, headers);
+			}
+		}
+	} catch (e: unknown) {
+		console.error("Top-level error:", e);
+		const { status, body: errorBody, headers } = toOpenAIErrorResponse(e);
+		return c.json(errorBody, status, headers);
+	}
+});
+
+// Legacy text completions endpoint (including fill-in-the-middle via suffix)
+OpenAIRoute.post("/completions", async (c) => {
+	try {
+		console.log("Text completions request received");
+		const body = await readJsonBody<TextCompletionRequest>(c.req);
+		const requestedModel = body.model || DEFAULT_MODEL;
+		const modelResolver = new ModelResolver(c.env);
+		const resolvedModel = modelResolver.resolve(requestedModel);
+		const model = resolvedModel?.model || body.model;
+		const stream = body.stream === true;
+		const candidateCount = body.n ?? 1;
+
+		if (body.prompt === undefined || body.prompt === null) {
+			return c.json(invalidRequestError("prompt is a required field", "prompt"), 400);
+		}
+		const prompts = Array.isArray(body.prompt) ? body.prompt : [body.prompt];
+		if (!prompts.length || !prompts.every((prompt) => typeof prompt === "string")) {
+			return c.json(invalidRequestError("prompt must be a string or an array of strings", "prompt"), 400);
+		}
+
+		if (!resolvedModel) {
+			return c.json(invalidRequestError(modelResolver.unknownModelMessage(requestedModel), "model"), 400);
+		}
+
+		if (!Number.isInteger(candidateCount) || candidateCount < 1 || candidateCount > MAX_CANDIDATE_COUNT) {
+			return c.json(invalidRequestError(`n must be an integer between 1 and ${MAX_CANDIDATE_COUNT}`, "n"), 400);
+		}
+
+		const generationConfig = {
+			temperature: body.temperature,
+			topP: body.top_p,
+			maxOutputTokens: body.max_tokens,
+			presencePenalty: body.presence_penalty,
+			frequencyPenalty: body.frequency_penalty,
+			seed: body.seed,
+			candidateCount: body.n,
+			stopSequences: body.stop ? (Array.isArray(body.stop) ? body.stop : [body.stop]) : undefined
+		};
+		const samplingValidation = GenerationConfigValidator.validateSamplingParameters(generationConfig, {
+			logit_bias: body.logit_bias
+		});
+		if (!samplingValidation.isValid) {
+			return c.json(invalidRequestError(samplingValidation.error, samplingValidation.param), 400);
+		}
+		const warningHeaders: Record<string, string> = samplingValidation.warnings.length
+			? { [PARAMETER_WARNINGS_HEADER]: samplingValidation.warnings.join("; ") }
+			: {};
+		const geminiConfig = {
+			thinkingBudget: resolvedModel.thinkingBudget,
+			generationConfig: Object.fromEntries(Object.entries(generationConfig).filter(([, value]) => value !== undefined)),
+			tools: resolvedModel.search ? ToolConverter.withGoogleSearch(undefined) : undefined
+		};
+
+		// With a suffix the prompt becomes a fill-in-the-middle request, otherwise a plain continuation
+		const systemPrompt = body.suffix ? FILL_IN_THE_MIDDLE_SYSTEM_PROMPT : TEXT_COMPLETION_SYSTEM_PROMPT;
+		const toMessages = (prompt: string): ChatMessage[] => [
+			{
+				role: "user",
+				content: body.suffix ? `${prompt}${FILL_IN_THE_MIDDLE_MARKER}${body.suffix}` : prompt
+			}
+		];
+
+		const authManager = new AuthManager(c.env);
+		const geminiClient = new GeminiApiClient(c.env, authManager);
+
+		try {
+			await authManager.initializeAuth();
+		} catch (authError: unknown) {
+			const errorMessage = authError instanceof Error ? authError.message : String(authError);
+			console.error("Authentication failed:", errorMessage);
+			return c.json(openAIErrorBody("Authentication failed: " + errorMessage, "authentication_error"), 401);
+		}
+
+		if (stream) {
+			const { readable, writable } = new TransformStream();
+			const writer = writable.getWriter();
+			const completionStream = readable.pipeThrough(
+				createTextCompletionStreamTransformer(requestedModel, {
+					includeUsage: body.stream_options?.include_usage === true
+				})
+			);
+
+			// Each prompt is a separate Gemini request, so choice indexes are offset per prompt
+			(async () => {
+				let totalUsage: UsageData = { inputTokens: 0, outputTokens: 0 };
+				try {
+					for (const [promptIndex, prompt] of prompts.entries()) {
+						const indexOffset = promptIndex * candidateCount;
+						if (body.echo) {
+							for (let i = 0; i < candidateCount; i++) {
+								await writer.write({ type: "text", data: prompt, candidateIndex: indexOffset + i });
+							}
+						}
+
+						let promptUsage: UsageData | undefined;
+						for await (const chunk of geminiClient.streamContent(
+							model,
+							systemPrompt,
+							toMessages(prompt),
+							geminiConfig
+						)) {
+							if (chunk.type === "usage") {
+								// Usage is cumulative per request, so only the last report of each prompt counts
+								promptUsage = chunk.data as UsageData;
+								continue;
+							}
+							await writer.write({ ...chunk, candidateIndex: indexOffset + (chunk.candidateIndex ?? 0) });
+						}
+
+						if (promptUsage) {
+							totalUsage = addUsage(totalUsage, promptUsage);
+						}
+					}
+					await writer.write({ type: "usage", data: totalUsage });
+					await writer.close();
+				} catch (streamError: unknown) {
+					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+					console.error("Text completion stream error:", errorMessage);
+					// Report the error in-band, since the response status has already been sent
+					await writer.write({ type: "error", data: toErrorData(streamError) });
+					await writer.close();
+				}
+			})();
+
+			return new Response(completionStream, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+					Connection: "keep-alive",
+					"Access-Control-Allow-Origin": "*",
+					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+					"Access-Control-Allow-Headers": "Content-Type, Authorization",
+					...warningHeaders
+				}
+			});
+		}
+
+		try {
+			const response: TextCompletionResponse = {
+				id: `cmpl-${crypto.randomUUID()}`,
+				object: TEXT_COMPLETION_OBJECT,
+				created: Math.floor(Date.now() / 1000),
+				model: requestedModel,
+				choices: []
+			};
+			let totalUsage: UsageData = { inputTokens: 0, outputTokens: 0 };
+
+			for (const [promptIndex, prompt] of prompts.entries()) {
+				const completion = await geminiClient.getCompletion(model, systemPrompt, toMessages(prompt), geminiConfig);
+
+				for (const choice of completion.choices) {
+					response.choices.push({
+						text: body.echo ? prompt + choice.content : choice.content,
+						index: promptIndex * candidateCount + choice.index,
+						logprobs: null,
+						finish_reason: mapFinishReason(choice.finishReason)
+					});
+				}
+
+				if (completion.usage) {
+					totalUsage = addUsage(totalUsage, completion.usage);
+				}
 			}
+
+			response.usage = toOpenAIUsage(totalUsage);
+			return c.json(response, 200, warningHeaders);
+		} catch (completionError: unknown) {
+			const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+			console.error("Text completion error:", errorMessage);
+			const { status, body: errorBody, headers } = toOpenAIErrorResponse(completionError);
+			return c.json(errorBody, status, headers);
 		}
 	} catch (e: unknown) {
-		const errorMessage = e instanceof Error ? e.message : String(e);
 		console.error("Top-level error:", e);
-		return c.json({ error: errorMessage }, 500);
+		const { status, body: errorBody, headers } = toOpenAIErrorResponse(e);
+		return c.json(errorBody, status, headers);
 	}
 });
+
+// Embeddings endpoint backed by Gemini embedding models
+OpenAIRoute.post("/embeddings", async (c) => {
+	try {
+		console.log("Embeddings request received");
+		const body = await readJsonBody<EmbeddingRequest>(c.req);
+		const model = body.model || DEFAULT_EMBEDDING_MODEL;
+
+		if (body.input === undefined || body.input === null) {
+			return c.json(invalidRequestError("input is a required field", "input"), 400);
+		}
+		const inputs = Array.isArray(body.input) ? body.input : [body.input];
+		if (!inputs.length || !inputs.every((input) => typeof input === "string" && input.length > 0)) {
+			return c.json(
+				invalidRequestError("input must be a non-empty string or an array of non-empty strings", "input"),
+				400
+			);
+		}
+
+		const modelInfo = geminiEmbeddingModels[model];
+		if (!modelInfo) {
+			return c.json(
+				invalidRequestError(
+					`Embedding model '${model}' not found. Available embedding models: ${getAllEmbeddingModelIds().join(", ")}`,
+					"model"
+				),
+				400
+			);
+		}
+
+		if (body.dimensions !== undefined) {
+			if (!Number.isInteger(body.dimensions) || body.dimensions < 1 || body.dimensions > modelInfo.dimensions) {
+				return c.json(
+					invalidRequestError(`dimensions must be an integer between 1 and ${modelInfo.dimensions}`, "dimensions"),
+					400
+				);
+			}
+			if (!modelInfo.supportsCustomDimensions && body.dimensions !== modelInfo.dimensions) {
+				return c.json(invalidRequestError(`Model '${model}' does not support custom dimensions`, "dimensions"), 400);
+			}
+		}
+
+		if (body.encoding_format && !["float", "base64"].includes(body.encoding_format)) {
+			return c.json(
+				invalidRequestError(`Unsupported encoding_format: ${body.encoding_format}`, "encoding_format"),
+				400
+			);
+		}
+
+		const authManager = new AuthManager(c.env);
+		const geminiClient = new GeminiApiClient(c.env, authManager);
+
+		try {
+			await authManager.initializeAuth();
+		} catch (authError: unknown) {
+			const errorMessage = authError instanceof Error ? authError.message : String(authError);
+			console.error("Authentication failed:", errorMessage);
+			return c.json(openAIErrorBody("Authentication failed: " + errorMessage, "authentication_error"), 401);
+		}
+
+		try {
+			const vectors = await geminiClient.embedContents(model, inputs, {
+				outputDimensionality: body.dimensions,
+				taskType: body.task_type
+			});
+
+			const promptTokens = estimateEmbeddingTokens(inputs);
+			const response: EmbeddingResponse = {
+				object: "list",
+				data: vectors.map((values, index) => ({
+					object: "embedding",
+					index,
+					embedding: body.encoding_format === "base64" ? encodeEmbeddingBase64(values) : values
+				})),
+				model,
+				usage: {
+					prompt_tokens: promptTokens,
+					total_tokens: promptTokens
+				}
+			};
+
+			return c.json(response);
+		} catch (embeddingError: unknown) {
+			const errorMessage = embeddingError instanceof Error ? embeddingError.message : String(embeddingError);
+			console.error("Embedding error:", errorMessage);
+			const { status, body: errorBody, headers } = toOpenAIErrorResponse(embeddingError);
+			return c.json(errorBody, status, headers);
+		}
+	} catch (e: unknown) {
+		console.error("Top-level error:", e);
+		const { status, body: errorBody, headers } = toOpenAIErrorResponse(e);
+		return c.json(errorBody, status, headers);
+	}
+});
+
+/**
+ * Caches a chat completion. Results of an auto-switch fallback come from another model
+ * and include the switch notification, so they are never cached.
+ */
+async function cacheCompletion(responseCache: ResponseCache, key: string | null, completion: CompletionResult) {
+	if (!completion.autoSwitched) {
+		await responseCache.put(key, completion);
+	}
+}
+
+/**
+ * Caches the chunks of a streamed chat completion, unless they came from an auto-switch fallback.
+ */
+async function cacheStreamChunks(responseCache: ResponseCache, key: string | null, chunks: StreamChunk[]) {
+	if (!chunks.some((chunk) => chunk.autoSwitched)) {
+		await responseCache.put(key, chunks);
+	}
+}
@@ -0,0 +1,359 @@
+import { Hono } from "hono";
+import {
+	Env,
+	ChatMessage,
+	MessageContent,
+	ToolCall,
+	Tool,
+	ToolChoice,
+	ResponsesRequest,
+	ResponseInputItem,
+	ResponseInputContent
+} from "../types";
+import { geminiCliModels, DEFAULT_MODEL } from "../models";
+import { DEFAULT_THINKING_BUDGET } from "../constants";
+import { AuthManager } from "../auth";
+import { GeminiApiClient } from "../gemini-client";
+import { ResponseBuilder, createResponsesStreamTransformer } from "../responses-stream-transformer";
+import { ToolConverter } from "../helpers/tool-converter";
+import { ModelResolver } from "../helpers/model-resolver";
+import { ResponseStore } from "../helpers/response-store";
+import { RemoteImageFetcher } from "../helpers/remote-image-fetcher";
+import { openAIErrorBody, invalidRequestError, toOpenAIErrorResponse, toErrorData } from "../utils/error-utils";
+import { readJsonBody } from "../utils/request-utils";
+
+/**
+ * OpenAI Responses API routes, built on the same Gemini streaming pipeline as chat completions.
+ * Responses are stored in KV so they can be retrieved and chained with previous_response_id.
+ */
+export const ResponsesRoute = new Hono<{ Bindings: Env }>();
+
+// Create a model response
+ResponsesRoute.post("/", async (c) => {
+	try {
+		console.log("Responses request received");
+		const body = await readJsonBody<ResponsesRequest>(c.req);
+		// Resolve aliases and suffixes such as ":thinking-high" to a Gemini model
+		const requestedModel = body.model || DEFAULT_MODEL;
+		const modelResolver = new ModelResolver(c.env);
+		const resolvedModel = modelResolver.resolve(requestedModel);
+		const model = resolvedModel?.model || body.model;
+		// OpenAI API compatibility: stream defaults to false unless explicitly set to true
+		const stream = body.stream === true;
+		const store = body.store !== false;
+
+		// Check environment settings for real thinking
+		const isRealThinkingEnabled = c.env.ENABLE_REAL_THINKING === "true";
+		const includeReasoning = isRealThinkingEnabled; // Automatically enable reasoning when real thinking is enabled
+
+		// Validate model
+		if (!resolvedModel) {
+			return c.json(invalidRequestError(modelResolver.unknownModelMessage(requestedModel), "model"), 400);
+		}
+
+		if (body.input === undefined && !body.previous_response_id) {
+			return c.json(invalidRequestError("input is a required field", "input"), 400);
+		}
+
+		// Continue the stored conversation when chaining on a previous response
+		const responseStore = new ResponseStore(c.env);
+		let history: ChatMessage[] = [];
+		if (body.previous_response_id) {
+			const previous = await responseStore.get(body.previous_response_id);
+			if (!previous) {
+				return c.json(
+					invalidRequestError(
+						`Previous response with id '${body.previous_response_id}' not found`,
+						"previous_response_id"
+					),
+					400
+				);
+			}
+			history = previous.messages;
+		}
+
+		let input: { messages: ChatMessage[]; systemPrompt: string };
+		try {
+			input = inputToMessages(body.input ?? []);
+		} catch (inputError: unknown) {
+			const errorMessage = inputError instanceof Error ? inputError.message : String(inputError);
+			return c.json(invalidRequestError(errorMessage, "input"), 400);
+		}
+
+		const messages = [...history, ...input.messages];
+		if (!messages.length) {
+			return c.json(invalidRequestError("input must contain at least one item", "input"), 400);
+		}
+
+		// Instructions only apply to the current response and are not carried over by previous_response_id
+		const systemPrompt = [body.instructions, input.systemPrompt].filter(Boolean).join("\n\n");
+
+		// Validate and translate Responses function tools into Gemini function declarations
+		let tools: Record<string, unknown>[] | undefined;
+		let toolConfig;
+		if (body.tools !== undefined) {
+			if (!Array.isArray(body.tools)) {
+				return c.json(invalidRequestError("tools must be an array", "tools"), 400);
+			}
+			const chatTools: Tool[] = body.tools.map((tool) => ({
+				type: tool.type,
+				function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+			}));
+			const toolsError = ToolConverter.validateTools(chatTools);
+			if (toolsError) {
+				return c.json(invalidRequestError(toolsError, "tools"), 400);
+			}
+			if (chatTools.length) {
+				tools = ToolConverter.toGeminiTools(chatTools);
+				toolConfig = ToolConverter.toGeminiToolConfig(toChatToolChoice(body.tool_choice));
+			}
+		}
+
+		// Extract and normalize parameters for Gemini API
+		const generationConfig = {
+			temperature: body.temperature,
+			topP: body.top_p,
+			maxOutputTokens: body.max_output_tokens
+		};
+
+		// Filter out undefined values
+		const filteredConfig = Object.fromEntries(
+			Object.entries(generationConfig).filter(([, value]) => value !== undefined)
+		);
+
+		const geminiConfig = {
+			includeReasoning,
+			thinkingBudget: resolvedModel.thinkingBudget ?? DEFAULT_THINKING_BUDGET,
+			generationConfig: filteredConfig,
+			tools: resolvedModel.search ? ToolConverter.withGoogleSearch(tools) : tools,
+			toolConfig,
+			// Thinking is returned as reasoning items, so it is never mixed into the output text
+			streamThinkingAsContent: false
+		};
+
+		console.log("Responses request parsed:", {
+			model,
+			messageCount: messages.length,
+			stream,
+			store,
+			previousResponseId: body.previous_response_id,
+			generationConfig: filteredConfig,
+			toolCount: body.tools?.length || 0
+		});
+
+		// Check if the request contains images and validate model support
+		const hasImages = messages.some(
+			(msg) => Array.isArray(msg.content) && msg.content.some((content) => content.type === "image_url")
+		);
+		if (hasImages && !geminiCliModels[model].supportsImages) {
+			return c.json(
+				invalidRequestError(
+					`Model '${model}' does not support image inputs. Please use a vision-capable model like gemini-2.5-pro or gemini-2.5-flash.`,
+					"input"
+				),
+				400
+			);
+		}
+
+		// Remote images are downloaded before the response starts, so a broken image URL is reported as a 400
+		const requestMessages = await new RemoteImageFetcher(c.env).inlineRemoteImages(messages);
+
+		// Initialize services
+		const authManager = new AuthManager(c.env);
+		const geminiClient = new GeminiApiClient(c.env, authManager);
+
+		// Test authentication first
+		try {
+			await authManager.initializeAuth();
+			console.log("Authentication successful");
+		} catch (authError: unknown) {
+			const errorMessage = authError instanceof Error ? authError.message : String(authError);
+			console.error("Authentication failed:", errorMessage);
+			return c.json(openAIErrorBody("Authentication failed: " + errorMessage, "authentication_error"), 401);
+		}
+
+		// The response echoes the requested model name, which may be an alias
+		const builder = new ResponseBuilder(requestedModel, body);
+
+		// Persist the response with the conversation that produced it
+		const saveResponse = async (completed: ResponseBuilder) => {
+			if (!store) {
+				return;
+			}
+			const assistantMessage = completed.getAssistantMessage();
+			await responseStore.put({
+				response: completed.getResponse(),
+				messages: assistantMessage ? [...messages, assistantMessage] : messages
+			});
+		};
+
+		if (stream) {
+			// Streaming response
+			const { readable, writable } = new TransformStream();
+			const writer = writable.getWriter();
+			const responsesStream = readable.pipeThrough(createResponsesStreamTransformer(builder, saveResponse));
+
+			// Asynchronously pipe data from Gemini to transformer
+			(async () => {
+				try {
+					console.log("Starting response stream generation");
+					const geminiStream = geminiClient.streamContent(model, systemPrompt, requestMessages, geminiConfig);
+
+					for await (const chunk of geminiStream) {
+						await writer.write(chunk);
+					}
+					console.log("Response stream completed successfully");
+					await writer.close();
+				} catch (streamError: unknown) {
+					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+					console.error("Stream error:", errorMessage);
+					// Report the error in-band, since the response status has already been sent
+					await writer.write({ type: "error", data: toErrorData(streamError) });
+					await writer.close();
+				}
+			})();
+
+			// Return streaming response
+			return new Response(responsesStream, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+					Connection: "keep-alive",
+					"Access-Control-Allow-Origin": "*",
+					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+					"Access-Control-Allow-Headers": "Content-Type, Authorization"
+				}
+			});
+		} else {
+			// Non-streaming response
+			try {
+				console.log("Starting non-streaming response");
+				for await (const chunk of geminiClient.streamContent(model, systemPrompt, requestMessages, geminiConfig)) {
+					builder.handleChunk(chunk);
+				}
+				builder.finish();
+				await saveResponse(builder);
+
+				console.log("Non-streaming response successful");
+				return c.json(builder.getResponse());
+			} catch (completionError: unknown) {
+				const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+				console.error("Response error:", errorMessage);
+				const { status, body: errorBody, headers } = toOpenAIErrorResponse(completionError);
+				return c.json(errorBody, status, headers);
+			}
+		}
+	} catch (e: unknown) {
+		console.error("Top-level error:", e);
+		const { status, body: errorBody, headers } = toOpenAIErrorResponse(e);
+		return c.json(errorBody, status, headers);
+	}
+});
+
+// Retrieve a stored response
+ResponsesRoute.get("/:id", async (c) => {
+	try {
+		const responseId = c.req.param("id");
+		const stored = await new ResponseStore(c.env).get(responseId);
+		if (!stored) {
+			return c.json(openAIErrorBody(`Response with id '${responseId}' not found`, "not_found_error"), 404);
+		}
+		return c.json(stored.response);
+	} catch (e: unknown) {
+		console.error("Top-level error:", e);
+		const { status, body: errorBody, headers } = toOpenAIErrorResponse(e);
+		return c.json(errorBody, status, headers);
+	}
+});
+
+/**
+ * Converts Responses API input items into chat messages.
+ * System and developer messages are collected into a system prompt,
+ * function_call items become assistant tool calls and function_call_output items become tool results.
+ */
+function inputToMessages(input: string | ResponseInputItem[]): { messages: ChatMessage[]; systemPrompt: string } {
+	if (typeof input === "string") {
+		return { messages: [{ role: "user", content: input }], systemPrompt: "" };
+	}
+	if (!Array.isArray(input)) {
+		throw new Error("input must be a string or an array of input items");
+	}
+
+	const messages: ChatMessage[] = [];
+	let systemPrompt = "";
+
+	for (const item of input) {
+		const itemType = (item as { type?: string }).type;
+
+		if (item.type === "function_call") {
+			const toolCall: ToolCall = {
+				id: item.call_id,
+				type: "function",
+				function: { name: item.name, arguments: item.arguments }
+			};
+			// Function calls following an assistant message belong to the same model turn
+			const previous = messages[messages.length - 1];
+			if (previous?.role === "assistant") {
+				previous.tool_calls = [...(previous.tool_calls || []), toolCall];
+			} else {
+				messages.push({ role: "assistant", content: null, tool_calls: [toolCall] });
+			}
+		} else if (item.type === "function_call_output") {
+			messages.push({
+				role: "tool",
+				tool_call_id: item.call_id,
+				content: typeof item.output === "string" ? item.output : JSON.stringify(item.output)
+			});
+		} else if (itemType === "reasoning") {
+			// Reasoning items echoed back from earlier output carry no input for Gemini
+			continue;
+		} else if (item.type === undefined || item.type === "message") {
+			if (!["user", "assistant", "system", "developer"].includes(item.role)) {
+				throw new Error(`Unsupported message role: ${item.role}`);
+			}
+			const content = toMessageContent(item.content);
+			if (item.role === "system" || item.role === "developer") {
+				const text = typeof content === "string" ? content : content.map((part) => part.text || "").join(" ");
+				systemPrompt = systemPrompt ? `${systemPrompt}\n\n${text}` : text;
+			} else {
+				messages.push({ role: item.role, content });
+			}
+		} else {
+			throw new Error(`Unsupported input item type: ${itemType}`);
+		}
+	}
+
+	return { messages, systemPrompt };
+}
+
+/**
+ * Converts Responses API message content into chat message content.
+ */
+function toMessageContent(content: string | ResponseInputContent[]): string | MessageContent[] {
+	if (typeof content === "string") {
+		return content;
+	}
+	if (!Array.isArray(content)) {
+		throw new Error("message content must be a string or an array of content parts");
+	}
+
+	return content.map((part) => {
+		if (part.type === "input_text" || part.type === "output_text") {
+			return { type: "text", text: part.text || "" };
+		}
+		if (part.type === "input_image" && part.image_url) {
+			return { type: "image_url", image_url: { url: part.image_url, detail: part.detail } };
+		}
+		throw new Error(`Unsupported content part type: ${part.type}`);
+	});
+}
+
+/**
+ * Converts a Responses API tool_choice into its chat completions equivalent.
+ */
+function toChatToolChoice(toolChoice: ResponsesRequest["tool_choice"]): ToolChoice | undefined {
+	if (toolChoice && typeof toolChoice === "object") {
+		return { type: "function", function: { name: toolChoice.name } };
+	}
+	return toolChoice;
+}
@@ -1,21 +1,55 @@
-import { StreamChunk, ReasoningData } from "./types";
+import {
+	StreamChunk,
+	ReasoningData,
+	ToolCallData,
+	FinishReasonData,
+	UsageData,
+	LogprobsData,
+	GroundingData,
+	SafetyRatingsData,
+	SafetyRating,
+	ErrorData,
+	ChatCompletionUsage,
+	ChatCompletionLogprobs,
+	UrlCitationAnnotation
+} from "./types";
 import { OPENAI_CHAT_COMPLETION_OBJECT } from "./config";
+import { TEXT_COMPLETION_OBJECT } from "./constants";
+import { mapFinishReason } from "./utils/finish-reason";
+import { toOpenAIUsage } from "./utils/usage-utils";
+import { toOpenAIErrorBody } from "./utils/error-utils";
+import { CitationAligner } from "./utils/grounding-utils";
 
 // OpenAI API interfaces
 interface OpenAIChoice {
 	index: number;
 	delta: OpenAIDelta;
 	finish_reason: string | null;
-	logprobs?: null;
+	logprobs?: ChatCompletionLogprobs | null;
 	matched_stop?: null;
 }
 
 interface OpenAIDelta {
 	role?: string;
-	content?: string;
-	reasoning?: string;
-	reasoning_content?: string | null;
-	tool_calls?: null;
+	content?: string | null;
+	reasoning_content?: string;
+	tool_calls?: OpenAIToolCallDelta[] | null;
+	annotations?: UrlCitationAnnotation[];
+}
+
+interface OpenAIToolCallDelta {
+	index: number;
+	id: string;
+	type: "function";
+	function: {
+		name: string;
+		arguments: string;
+	};
+	extra_content?: {
+		google: {
+			thought_signature: string;
+		};
+	};
 }
 
 interface OpenAIChunk {
@@ -31,6 +65,7 @@ interface OpenAIFinalChoice {
 	index: number;
 	delta: Record<string, never>;
 	finish_reason: string;
+	safety_ratings?: SafetyRating[];
 }
 
 interface OpenAIFinalChunk {
@@ -39,149 +74,344 @@ interface OpenAIFinalChunk {
 	created: number;
 	model: string;
 	choices: OpenAIFinalChoice[];
+	usage?: ChatCompletionUsage;
+}
+
+interface TextCompletionChunk {
+	id: string;
+	object: string;
+	created: number;
+	model: string;
+	choices: Array<{
+		text: string;
+		index: number;
+		logprobs: null;
+		finish_reason: string | null;
+	}>;
+	usage?: ChatCompletionUsage | null;
+}
+
+interface OpenAIStreamTransformerOptions {
+	includeUsage?: boolean; // stream_options.include_usage: append a usage-only chunk before [DONE]
+	includeSafetyRatings?: boolean; // include_safety_ratings: add each choice's safety ratings to the final chunk
 }
 
 // Type guard functions
-function isReasoningData(data: unknown): data is ReasoningData {
+export function isReasoningData(data: unknown): data is ReasoningData {
 	return typeof data === "object" && data !== null && "reasoning" in data;
 }
 
+export function isToolCallData(data: unknown): data is ToolCallData {
+	return typeof data === "object" && data !== null && "name" in data && "arguments" in data;
+}
+
+export function isUsageData(data: unknown): data is UsageData {
+	return typeof data === "object" && data !== null && "inputTokens" in data && "outputTokens" in data;
+}
+
+export function isFinishReasonData(data: unknown): data is FinishReasonData {
+	return typeof data === "object" && data !== null && "reason" in data;
+}
+
+export function isLogprobsData(data: unknown): data is LogprobsData {
+	return typeof data === "object" && data !== null && "content" in data && Array.isArray(data.content);
+}
+
+export function isGroundingData(data: unknown): data is GroundingData {
+	return typeof data === "object" && data !== null && "annotations" in data && Array.isArray(data.annotations);
+}
+
+export function isSafetyRatingsData(data: unknown): data is SafetyRatingsData {
+	return typeof data === "object" && data !== null && "safetyRatings" in data && Array.isArray(data.safetyRatings);
+}
+
+export function isErrorData(data: unknown): data is ErrorData {
+	return typeof data === "object" && data !== null && "message" in data && "status" in data;
+}
+
 /**
  * Creates a TransformStream to convert Gemini's output chunks
  * into OpenAI-compatible server-sent events.
+ * Chunks are routed to choices by their candidate index, so `n > 1` streams every choice.
  */
-export function createOpenAIStreamTransformer(model: string): TransformStream<StreamChunk, Uint8Array> {
+export function createOpenAIStreamTransformer(
+	model: string,
+	options: OpenAIStreamTransformerOptions = {}
+): TransformStream<StreamChunk, Uint8Array> {
 	const chatID = `chatcmpl-${crypto.randomUUID()}`;
 	const creationTime = Math.floor(Date.now() / 1000);
 	const encoder = new TextEncoder();
-	let firstChunk = true;
+	const startedChoices = new Set<number>();
+	const toolCallCounts = new Map<number, number>();
+	const finishReasons = new Map<number, string>();
+	const safetyRatings = new Map<number, SafetyRating[]>();
+	const citationAligners = new Map<number, CitationAligner>();
+	let latestUsage: UsageData | null = null;
+	let failed = false;
+
+	const getCitationAligner = (index: number) => {
+		let aligner = citationAligners.get(index);
+		if (!aligner) {
+			aligner = new CitationAligner();
+			citationAligners.set(index, aligner);
+		}
+		return aligner;
+	};
+
+	// Adds the assistant role to the first content delta of each choice
+	const markFirstChunk = (delta: OpenAIDelta, index: number) => {
+		if (!startedChoices.has(index)) {
+			delta.role = "assistant";
+			startedChoices.add(index);
+		}
+	};
+
+	const enqueueDelta = (
+		controller: TransformStreamDefaultController<Uint8Array>,
+		delta: OpenAIDelta,
+		index: number,
+		logprobs: ChatCompletionLogprobs | null = null
+	) => {
+		const openAIChunk: OpenAIChunk = {
+			id: chatID,
+			object: OPENAI_CHAT_COMPLETION_OBJECT,
+			created: creationTime,
+			model: model,
+			choices: [
+				{
+					index,
+					delta: delta,
+					finish_reason: null,
+					logprobs,
+					matched_stop: null
+				}
+			],
+			// With stream_options.include_usage, OpenAI sends a null usage on every chunk before the usage chunk
+			...(options.includeUsage && { usage: null })
+		};
+		controller.enqueue(encoder.encode(`data: ${JSON.stringify(openAIChunk)}\n\n`));
+	};
 
 	return new TransformStream({
 		transform(chunk, controller) {
+			const index = chunk.candidateIndex ?? 0;
+
 			if (chunk.type === "text" && chunk.data && typeof chunk.data === "string") {
+				getCitationAligner(index).addContent(chunk.data, !chunk.autoSwitched);
 				const delta: OpenAIDelta = {
 					content: chunk.data,
-					reasoning_content: null,
 					tool_calls: null
 				};
-				if (firstChunk) {
-					delta.role = "assistant";
-					firstChunk = false;
-				}
-
-				const openAIChunk: OpenAIChunk = {
-					id: chatID,
-					object: OPENAI_CHAT_COMPLETION_OBJECT,
-					created: creationTime,
-					model: model,
-					choices: [
-						{
-							index: 0,
-							delta: delta,
-							finish_reason: null,
-							logprobs: null,
-							matched_stop: null
-						}
-					],
-					usage: null
-				};
-				controller.enqueue(encoder.encode(`data: ${JSON.stringify(openAIChunk)}\n\n`));
+				markFirstChunk(delta, index);
+				enqueueDelta(controller, delta, index);
 			} else if (chunk.type === "thinking_content" && chunk.data && typeof chunk.data === "string") {
 				// Handle thinking content streamed as regular content (DeepSeek R1 style)
+				getCitationAligner(index).addContent(chunk.data, false);
 				const delta: OpenAIDelta = {
 					content: chunk.data,
-					reasoning_content: null,
 					tool_calls: null
 				};
-				if (firstChunk) {
-					delta.role = "assistant";
-					firstChunk = false;
-				}
-
-				const openAIChunk: OpenAIChunk = {
-					id: chatID,
-					object: OPENAI_CHAT_COMPLETION_OBJECT,
-					created: creationTime,
-					model: model,
-					choices: [
-						{
-							index: 0,
-							delta: delta,
-							finish_reason: null,
-							logprobs: null,
-							matched_stop: null
-						}
-					],
-					usage: null
-				};
-				controller.enqueue(encoder.encode(`data: ${JSON.stringify(openAIChunk)}\n\n`));
+				markFirstChunk(delta, index);
+				enqueueDelta(controller, delta, index);
 			} else if (chunk.type === "real_thinking" && chunk.data && typeof chunk.data === "string") {
 				// Handle real thinking content from Gemini
-				const delta: OpenAIDelta = {
-					reasoning: chunk.data,
-					reasoning_content: null,
-					tool_calls: null
-				};
-
-				const openAIChunk: OpenAIChunk = {
-					id: chatID,
-					object: OPENAI_CHAT_COMPLETION_OBJECT,
-					created: creationTime,
-					model: model,
-					choices: [
-						{
-							index: 0,
-							delta: delta,
-							finish_reason: null,
-							logprobs: null,
-							matched_stop: null
-						}
-					],
-					usage: null
-				};
-				controller.enqueue(encoder.encode(`data: ${JSON.stringify(openAIChunk)}\n\n`));
+				enqueueDelta(
+					controller,
+					{
+						reasoning_content: chunk.data,
+						tool_calls: null
+					},
+					index
+				);
 			} else if (chunk.type === "reasoning" && isReasoningData(chunk.data)) {
 				// Handle thinking/reasoning chunks (original format)
-				const delta: OpenAIDelta = {
-					reasoning: chunk.data.reasoning,
-					reasoning_content: null,
-					tool_calls: null
-				};
+				enqueueDelta(
+					controller,
+					{
+						reasoning_content: chunk.data.reasoning,
+						tool_calls: null
+					},
+					index
+				);
+			} else if (chunk.type === "tool_call" && isToolCallData(chunk.data)) {
+				// Each Gemini function call arrives complete, so it is sent as a single tool_calls delta
+				const toolCallIndex = toolCallCounts.get(index) || 0;
+				toolCallCounts.set(index, toolCallIndex + 1);
 
-				const openAIChunk: OpenAIChunk = {
-					id: chatID,
-					object: OPENAI_CHAT_COMPLETION_OBJECT,
-					created: creationTime,
-					model: model,
-					choices: [
+				const delta: OpenAIDelta = {
+					content: null,
+					tool_calls: [
 						{
-							index: 0,
-							delta: delta,
-							finish_reason: null,
-							logprobs: null,
-							matched_stop: null
+							index: toolCallIndex,
+							id: chunk.data.id,
+							type: "function",
+							function: {
+								name: chunk.data.name,
+								arguments: chunk.data.arguments
+							},
+							...(chunk.data.thoughtSignature && {
+								extra_content: { google: { thought_signature: chunk.data.thoughtSignature } }
+							})
 						}
-					],
-					usage: null
+					]
 				};
-				controller.enqueue(encoder.encode(`data: ${JSON.stringify(openAIChunk)}\n\n`));
+				markFirstChunk(delta, index);
+				enqueueDelta(controller, delta, index);
+			} else if (chunk.type === "logprobs" && isLogprobsData(chunk.data)) {
+				// Gemini reports log probabilities after the text they belong to, so they get their own delta
+				enqueueDelta(controller, { content: "" }, index, { content: chunk.data.content, refusal: null });
+			} else if (chunk.type === "grounding" && isGroundingData(chunk.data)) {
+				// Search sources arrive after the text they cite, as a delta of their own
+				const annotations = getCitationAligner(index).align(chunk.data.annotations);
+				enqueueDelta(controller, { content: "", annotations }, index);
+			} else if (chunk.type === "safety_ratings" && isSafetyRatingsData(chunk.data)) {
+				// Ratings are updated as the candidate grows, the latest ones are sent with the finish reason
+				safetyRatings.set(index, chunk.data.safetyRatings);
+			} else if (chunk.type === "finish_reason" && isFinishReasonData(chunk.data)) {
+				// Remember Gemini's finish reason and report it in the final chunk
+				finishReasons.set(index, chunk.data.reason);
+			} else if (chunk.type === "usage" && isUsageData(chunk.data)) {
+				// Gemini reports cumulative usage, so only the latest value matters.
+				// It is sent after the finish chunk when the client asked for stream_options.include_usage.
+				latestUsage = chunk.data;
+			} else if (chunk.type === "error" && isErrorData(chunk.data)) {
+				failed = true;
+				enqueueError(controller, encoder, chunk.data);
 			}
-			// Note: Usage chunks are intentionally not forwarded in streaming responses
-			// as OpenAI's streaming format doesn't include usage data in individual chunks.
-			// Usage information is available in non-streaming responses via the usage field.
-			// Future enhancement: Could be added to the final chunk if needed for compatibility.
 		},
 		flush(controller) {
-			// Send the final chunk with the finish reason.
+			// A failed stream ends with the error event, without a finish reason or [DONE]
+			if (failed) {
+				return;
+			}
+
+			// Send a final chunk with the finish reason for every choice that was streamed.
+			const choiceIndexes = [...new Set([...startedChoices, ...finishReasons.keys()])].sort((a, b) => a - b);
+			if (!choiceIndexes.length) {
+				choiceIndexes.push(0);
+			}
 			const finalChunk: OpenAIFinalChunk = {
 				id: chatID,
 				object: OPENAI_CHAT_COMPLETION_OBJECT,
 				created: creationTime,
 				model: model,
-				choices: [{ index: 0, delta: {}, finish_reason: "stop" }]
+				choices: choiceIndexes.map((index) => ({
+					index,
+					delta: {},
+					finish_reason: mapFinishReason(finishReasons.get(index), toolCallCounts.has(index)),
+					...(options.includeSafetyRatings && { safety_ratings: safetyRatings.get(index) || [] })
+				}))
 			};
 			controller.enqueue(encoder.encode(`data: ${JSON.stringify(finalChunk)}\n\n`));
+
+			if (options.includeUsage && latestUsage) {
+				const usageChunk: OpenAIFinalChunk = {
+					id: chatID,
+					object: OPENAI_CHAT_COMPLETION_OBJECT,
+					created: creationTime,
+					model: model,
+					choices: [],
+					usage: toOpenAIUsage(latestUsage)
+				};
+				controller.enqueue(encoder.encode(`data: ${JSON.stringify(usageChunk)}\n\n`));
+			}
+
+			controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+		}
+	});
+}
+
+/**
+ * Creates a TransformStream to convert Gemini's output chunks
+ * into legacy OpenAI text_completion server-sent events.
+ * Only answer text is forwarded; reasoning and thinking chunks are dropped.
+ */
+export function createTextCompletionStreamTransformer(
+	model: string,
+	options: OpenAIStreamTransformerOptions = {}
+): TransformStream<StreamChunk, Uint8Array> {
+	const completionID = `cmpl-${crypto.randomUUID()}`;
+	const creationTime = Math.floor(Date.now() / 1000);
+	const encoder = new TextEncoder();
+	const seenChoices = new Set<number>();
+	const finishReasons = new Map<number, string>();
+	let latestUsage: UsageData | null = null;
+	let failed = false;
+
+	const enqueueChunk = (controller: TransformStreamDefaultController<Uint8Array>, chunk: TextCompletionChunk) => {
+		controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+	};
+
+	return new TransformStream({
+		transform(chunk, controller) {
+			const index = chunk.candidateIndex ?? 0;
+
+			if (chunk.type === "text" && chunk.data && typeof chunk.data === "string") {
+				seenChoices.add(index);
+				enqueueChunk(controller, {
+					id: completionID,
+					object: TEXT_COMPLETION_OBJECT,
+					created: creationTime,
+					model: model,
+					choices: [{ text: chunk.data, index, logprobs: null, finish_reason: null }]
+				});
+			} else if (chunk.type === "finish_reason" && isFinishReasonData(chunk.data)) {
+				seenChoices.add(index);
+				finishReasons.set(index, chunk.data.reason);
+			} else if (chunk.type === "usage" && isUsageData(chunk.data)) {
+				latestUsage = chunk.data;
+			} else if (chunk.type === "error" && isErrorData(chunk.data)) {
+				failed = true;
+				enqueueError(controller, encoder, chunk.data);
+			}
+		},
+		flush(controller) {
+			if (failed) {
+				return;
+			}
+
+			const choiceIndexes = [...seenChoices].sort((a, b) => a - b);
+			if (!choiceIndexes.length) {
+				choiceIndexes.push(0);
+			}
+
+			enqueueChunk(controller, {
+				id: completionID,
+				object: TEXT_COMPLETION_OBJECT,
+				created: creationTime,
+				model: model,
+				choices: choiceIndexes.map((index) => ({
+					text: "",
+					index,
+					logprobs: null,
+					finish_reason: mapFinishReason(finishReasons.get(index))
+				}))
+			});
+
+			if (options.includeUsage && latestUsage) {
+				enqueueChunk(controller, {
+					id: completionID,
+					object: TEXT_COMPLETION_OBJECT,
+					created: creationTime,
+					model: model,
+					choices: [],
+					usage: toOpenAIUsage(latestUsage)
+				});
+			}
+
 			controller.enqueue(encoder.encode("data: [DONE]\n\n"));
 		}
 	});
 }
+
+/**
+ * Sends an error as an in-band server-sent event. OpenAI SDKs raise an API error
+ * for a data payload with an "error" field instead of treating it as a completion chunk.
+ */
+function enqueueError(
+	controller: TransformStreamDefaultController<Uint8Array>,
+	encoder: TextEncoder,
+	errorData: ErrorData
+): void {
+	controller.enqueue(encoder.encode(`data: ${JSON.stringify(toOpenAIErrorBody(errorData))}\n\n`));
+}
@@ -8,6 +8,9 @@ export interface Env {
 	ENABLE_REAL_THINKING?: string; // Optional flag to enable real Gemini thinking output (set to "true" to enable)
 	STREAM_THINKING_AS_CONTENT?: string; // Optional flag to stream thinking as content with <thinking> tags (set to "true" to enable)
 	ENABLE_AUTO_MODEL_SWITCHING?: string; // Optional flag to enable automatic fallback from pro to flash on 429 errors (set to "true" to enable)
+	MODEL_ALIASES?: string; // Optional JSON object mapping model names (e.g. "gpt-4o") to Gemini models
+	ENABLE_RESPONSE_CACHE?: string; // Optional flag to cache responses to temperature 0 requests in KV (set to "true" to enable)
+	RESPONSE_CACHE_TTL?: string; // Optional response cache lifetime in seconds
 }
 
 // --- OAuth2 Credentials Interface ---
@@ -25,19 +28,47 @@ export interface ModelInfo {
 	maxTokens: number;
 	contextWindow: number;
 	supportsImages: boolean;
+	supportsAudio: boolean;
+	supportsDocuments: boolean; // PDF, plain text and source files sent as file content parts
 	supportsPromptCache: boolean;
 	inputPrice: number;
 	outputPrice: number;
 	description: string;
 	thinking: boolean; // Indicates if the model supports thinking
+	minThinkingBudget?: number; // Smallest thinking budget the model accepts, 0 if thinking can be disabled
+	maxThinkingBudget?: number; // Largest thinking budget the model accepts
+}
+
+// --- Model Alias Interfaces ---
+export interface ModelAlias {
+	model: string; // Target Gemini model, optionally with suffixes such as ":thinking-high"
+	thinkingBudget?: number; // Default thinking budget for requests using the alias
+}
+
+export interface ResolvedModel {
+	model: string; // Gemini model ID
+	thinkingBudget?: number; // Thinking budget from the alias or a ":thinking-<effort>" suffix
+	search: boolean; // Whether Google Search grounding was requested with a ":search" suffix
+}
+
+// --- Embedding Model Information Interface ---
+export interface EmbeddingModelInfo {
+	dimensions: number; // Default output dimensionality
+	supportsCustomDimensions: boolean; // Whether outputDimensionality can shrink the vector
+	maxInputTokens: number;
+	description: string;
 }
 
 // --- Chat Completion Request Interface ---
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
 export interface ChatCompletionRequest {
 	model: string;
 	messages: ChatMessage[];
 	stream?: boolean;
+	stream_options?: StreamOptions;
 	thinking_budget?: number; // Optional thinking token budget
+	reasoning_effort?: ReasoningEffort; // OpenAI reasoning effort, mapped to a thinking budget
 	
 	// OpenAI standard parameters
 	temperature?: number;
@@ -47,6 +78,10 @@ export interface ChatCompletionRequest {
 	presence_penalty?: number;
 	stop?: string | string[];
 	n?: number;
+	logprobs?: boolean; // Return log probabilities of the output tokens
+	top_logprobs?: number; // Number of most likely alternatives per token (requires logprobs)
+	seed?: number;
+	logit_bias?: Record<string, number>; // Not supported by Gemini, ignored with a warning
 	
 	// Gemini-specific parameters (mapped from OpenAI compatible names)
 	top_k?: number; // Gemini topK parameter
@@ -55,27 +90,124 @@ export interface ChatCompletionRequest {
 	stop_sequences?: string[]; // Gemini stopSequences (alternative to stop)
 	response_mime_type?: string; // Gemini responseMimeType
 	response_schema?: any; // Gemini responseSchema for JSON mode
+	response_format?: ResponseFormat; // OpenAI structured output, translated to responseMimeType/responseSchema
 	safety_settings?: SafetySetting[]; // Gemini safety settings
+	safety_preset?: SafetyPreset; // Threshold for every harm category, overridden per category by safety_settings
+	include_safety_ratings?: boolean; // Return Gemini's per-category safety ratings on each choice
 	system_instruction?: string; // Gemini system instruction
+
+	// Tool / function calling
+	tools?: (Tool | GoogleSearchTool | CodeExecutionTool)[];
+	tool_choice?: ToolChoice;
+	web_search_options?: WebSearchOptions; // Enables Google Search grounding
+}
+
+// --- Tool Calling Types ---
+export interface FunctionDefinition {
+	name: string;
+	description?: string;
+	parameters?: Record<string, unknown>;
+	strict?: boolean;
+}
+
+export interface Tool {
+	type: "function";
+	function: FunctionDefinition;
+}
+
+// Gemini's built-in tools, accepted as tool entries on the chat completions route
+export interface GoogleSearchTool {
+	googleSearch: Record<string, unknown>;
+}
+
+export interface CodeExecutionTool {
+	codeExecution: Record<string, unknown>;
+}
+
+// OpenAI web search options. Gemini's Google Search has no settings, so they are accepted but not forwarded.
+export interface WebSearchOptions {
+	search_context_size?: "low" | "medium" | "high";
+	user_location?: Record<string, unknown>;
 }
 
+export type ToolChoice = "none" | "auto" | "required" | { type: "function"; function: { name: string } };
+
+export interface ToolCall {
+	id: string;
+	type: "function";
+	function: {
+		name: string;
+		arguments: string; // JSON-encoded arguments, as in the OpenAI API
+	};
+	// Gemini thought signature, echoed back so multi-turn tool loops keep their reasoning context
+	extra_content?: {
+		google?: {
+			thought_signature?: string;
+		};
+	};
+}
+
+export type ResponseFormat =
+	| { type: "text" }
+	| { type: "json_object" }
+	| {
+			type: "json_schema";
+			json_schema: {
+				name: string;
+				description?: string;
+				schema?: Record<string, unknown>;
+				strict?: boolean; // Gemini always enforces responseSchema, so strict is accepted but has no effect
+			};
+	  };
+
+export interface StreamOptions {
+	include_usage?: boolean; // Emit a final chunk with token usage and empty choices
+}
+
+export type HarmCategory =
+	| "HARM_CATEGORY_HARASSMENT"
+	| "HARM_CATEGORY_HATE_SPEECH"
+	| "HARM_CATEGORY_SEXUALLY_EXPLICIT"
+	| "HARM_CATEGORY_DANGEROUS_CONTENT"
+	| "HARM_CATEGORY_CIVIC_INTEGRITY";
+
 export interface SafetySetting {
-	category: "HARM_CATEGORY_HARASSMENT" | "HARM_CATEGORY_HATE_SPEECH" | "HARM_CATEGORY_SEXUALLY_EXPLICIT" | "HARM_CATEGORY_DANGEROUS_CONTENT";
-	threshold: "BLOCK_NONE" | "BLOCK_ONLY_HIGH" | "BLOCK_MEDIUM_AND_ABOVE" | "BLOCK_LOW_AND_ABOVE";
+	category: HarmCategory;
+	threshold: "OFF" | "BLOCK_NONE" | "BLOCK_ONLY_HIGH" | "BLOCK_MEDIUM_AND_ABOVE" | "BLOCK_LOW_AND_ABOVE";
+}
+
+export type SafetyPreset = "off" | "block_none" | "block_few" | "block_some" | "block_most";
+
+export interface SafetyRating {
+	category: string; // e.g. "HARM_CATEGORY_HARASSMENT"
+	probability: string; // e.g. "NEGLIGIBLE", "LOW", "MEDIUM" or "HIGH"
+	blocked?: boolean; // Whether this category caused the content to be blocked
 }
 
 export interface ChatMessage {
 	role: string;
-	content: string | MessageContent[];
+	content: string | MessageContent[] | null;
+	tool_calls?: ToolCall[]; // Present on assistant messages that requested tool calls
+	tool_call_id?: string; // Present on "tool" role messages carrying a tool result
+	name?: string; // Participant name, prefixed to user messages since Gemini has no equivalent
 }
 
 export interface MessageContent {
-	type: "text" | "image_url";
+	type: "text" | "image_url" | "input_audio" | "file";
 	text?: string;
 	image_url?: {
 		url: string;
 		detail?: "low" | "high" | "auto";
 	};
+	input_audio?: {
+		data: string; // Base64 encoded audio
+		format: string; // e.g. "wav" or "mp3"
+	};
+	file?: {
+		file_data?: string; // Data URL or raw base64 encoded file contents
+		filename?: string;
+		file_id?: string; // Uploaded file references are not supported
+	};
 }
 
 // --- Chat Completion Response Interfaces ---
@@ -91,32 +223,480 @@ export interface ChatCompletionResponse {
 export interface ChatCompletionChoice {
 	index: number;
 	message: ChatCompletionMessage;
-	finish_reason: "stop" | "length" | "function_call" | "content_filter" | null;
+	logprobs?: ChatCompletionLogprobs | null;
+	finish_reason: OpenAIFinishReason | "function_call" | null;
+	safety_ratings?: SafetyRating[]; // Gemini extension, returned when include_safety_ratings is set
+}
+
+export interface TopLogprob {
+	token: string;
+	logprob: number;
+	bytes: number[] | null;
 }
 
+export interface TokenLogprob extends TopLogprob {
+	top_logprobs: TopLogprob[];
+}
+
+export interface ChatCompletionLogprobs {
+	content: TokenLogprob[] | null;
+	refusal: null;
+}
+
+export type OpenAIFinishReason = "stop" | "length" | "tool_calls" | "content_filter";
+
 export interface ChatCompletionMessage {
 	role: "assistant";
-	content: string;
+	content: string | null;
+	reasoning_content?: string; // Thinking produced by the model, when reasoning is enabled
+	tool_calls?: ToolCall[];
+	annotations?: UrlCitationAnnotation[]; // Sources of a response grounded with Google Search
+}
+
+export interface UrlCitationAnnotation {
+	type: "url_citation";
+	url_citation: {
+		start_index: number; // Character range of the content supported by the source
+		end_index: number;
+		url: string;
+		title: string;
+	};
 }
 
 export interface ChatCompletionUsage {
 	prompt_tokens: number;
 	completion_tokens: number;
 	total_tokens: number;
+	prompt_tokens_details?: {
+		cached_tokens: number;
+		tool_use_prompt_tokens?: number; // Gemini extension: tokens of tool results fed back to the model
+		modality_tokens?: Record<string, number>; // Gemini extension: prompt tokens per input modality
+	};
+	completion_tokens_details?: {
+		reasoning_tokens: number;
+		modality_tokens?: Record<string, number>; // Gemini extension: completion tokens per output modality
+	};
+}
+
+// --- Legacy Text Completion Interfaces ---
+export interface TextCompletionRequest {
+	model: string;
+	prompt: string | string[];
+	suffix?: string; // Text after the insertion point, for fill-in-the-middle
+	echo?: boolean; // Prepend the prompt to the completion text
+	stream?: boolean;
+	stream_options?: StreamOptions;
+	max_tokens?: number;
+	temperature?: number;
+	top_p?: number;
+	n?: number;
+	stop?: string | string[];
+	presence_penalty?: number;
+	frequency_penalty?: number;
+	seed?: number;
+	logit_bias?: Record<string, number>; // Not supported by Gemini, ignored with a warning
+}
+
+export interface TextCompletionChoice {
+	text: string;
+	index: number;
+	logprobs: null;
+	finish_reason: OpenAIFinishReason | null;
+}
+
+export interface TextCompletionResponse {
+	id: string;
+	object: "text_completion";
+	created: number;
+	model: string;
+	choices: TextCompletionChoice[];
+	usage?: ChatCompletionUsage;
+}
+
+// --- Embedding Interfaces ---
+export interface EmbeddingRequest {
+	model: string;
+	input: string | string[];
+	dimensions?: number; // Mapped to Gemini outputDimensionality
+	encoding_format?: "float" | "base64";
+	task_type?: string; // Gemini taskType, e.g. "RETRIEVAL_QUERY" or "RETRIEVAL_DOCUMENT"
+}
+
+export interface EmbeddingData {
+	object: "embedding";
+	index: number;
+	embedding: number[] | string; // A base64 string of little-endian float32 values when encoding_format is "base64"
+}
+
+export interface EmbeddingResponse {
+	object: "list";
+	data: EmbeddingData[];
+	model: string;
+	usage: {
+		prompt_tokens: number;
+		total_tokens: number;
+	};
+}
+
+// --- Responses API Interfaces ---
+export interface ResponsesRequest {
+	model: string;
+	input?: string | ResponseInputItem[];
+	instructions?: string;
+	tools?: ResponseFunctionTool[];
+	tool_choice?: "none" | "auto" | "required" | { type: "function"; name: string };
+	previous_response_id?: string;
+	stream?: boolean;
+	store?: boolean; // Defaults to true, required for previous_response_id chaining and GET /v1/responses/{id}
+	temperature?: number;
+	top_p?: number;
+	max_output_tokens?: number;
+	metadata?: Record<string, string>;
+}
+
+export interface ResponseFunctionTool {
+	type: "function";
+	name: string;
+	description?: string;
+	parameters?: Record<string, unknown>;
+	strict?: boolean;
+}
+
+export interface ResponseInputContent {
+	type: "input_text" | "output_text" | "input_image";
+	text?: string;
+	image_url?: string;
+	detail?: "low" | "high" | "auto";
+}
+
+export interface ResponseInputMessage {
+	type?: "message";
+	role: "user" | "assistant" | "system" | "developer";
+	content: string | ResponseInputContent[];
+}
+
+export interface ResponseFunctionCallItem {
+	type: "function_call";
+	id?: string;
+	call_id: string;
+	name: string;
+	arguments: string;
+	status?: "in_progress" | "completed" | "incomplete";
+}
+
+export interface ResponseFunctionCallOutputItem {
+	type: "function_call_output";
+	call_id: string;
+	output: string;
+}
+
+export type ResponseInputItem = ResponseInputMessage | ResponseFunctionCallItem | ResponseFunctionCallOutputItem;
+
+export interface ResponseOutputText {
+	type: "output_text";
+	text: string;
+	annotations: unknown[];
+}
+
+export interface ResponseOutputMessage {
+	type: "message";
+	id: string;
+	status: "in_progress" | "completed" | "incomplete";
+	role: "assistant";
+	content: ResponseOutputText[];
+}
+
+export interface ResponseReasoningItem {
+	type: "reasoning";
+	id: string;
+	summary: Array<{ type: "summary_text"; text: string }>;
+}
+
+export type ResponseOutputItem = ResponseOutputMessage | ResponseFunctionCallItem | ResponseReasoningItem;
+
+export interface ResponseUsage {
+	input_tokens: number;
+	input_tokens_details: { cached_tokens: number };
+	output_tokens: number;
+	output_tokens_details: { reasoning_tokens: number };
+	total_tokens: number;
+}
+
+export interface ResponseObject {
+	id: string;
+	object: "response";
+	created_at: number;
+	status: "in_progress" | "completed" | "incomplete" | "failed";
+	model: string;
+	output: ResponseOutputItem[];
+	instructions: string | null;
+	previous_response_id: string | null;
+	tools: ResponseFunctionTool[];
+	tool_choice: ResponsesRequest["tool_choice"];
+	temperature: number | null;
+	top_p: number | null;
+	max_output_tokens: number | null;
+	parallel_tool_calls: boolean;
+	store: boolean;
+	metadata: Record<string, string>;
+	text: { format: { type: "text" } };
+	usage: ResponseUsage | null;
+	error: { code: string; message: string } | null;
+	incomplete_details: { reason: "max_output_tokens" | "content_filter" } | null;
+}
+
+// Stored in KV so responses can be retrieved and chained with previous_response_id
+export interface StoredResponse {
+	response: ResponseObject;
+	messages: ChatMessage[]; // The full conversation including this response's output, without instructions
+}
+
+// --- Anthropic Messages API Interfaces ---
+export interface AnthropicMessagesRequest {
+	model: string;
+	max_tokens: number;
+	messages: AnthropicMessage[];
+	system?: string | AnthropicTextBlock[];
+	stop_sequences?: string[];
+	stream?: boolean;
+	temperature?: number;
+	top_p?: number;
+	top_k?: number;
+	tools?: AnthropicTool[];
+	tool_choice?: { type: "auto" | "any" | "tool" | "none"; name?: string };
+	thinking?: { type: "enabled"; budget_tokens: number } | { type: "disabled" };
+	metadata?: Record<string, unknown>;
+}
+
+export interface AnthropicMessage {
+	role: "user" | "assistant";
+	content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTextBlock {
+	type: "text";
+	text: string;
+}
+
+export interface AnthropicImageBlock {
+	type: "image";
+	source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string };
+}
+
+export interface AnthropicToolUseBlock {
+	type: "tool_use";
+	id: string;
+	name: string;
+	input: Record<string, unknown>;
+}
+
+export interface AnthropicToolResultBlock {
+	type: "tool_result";
+	tool_use_id: string;
+	content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+	is_error?: boolean;
+}
+
+export interface AnthropicThinkingBlock {
+	type: "thinking";
+	thinking: string;
+	signature: string;
+}
+
+export type AnthropicContentBlock =
+	| AnthropicTextBlock
+	| AnthropicImageBlock
+	| AnthropicToolUseBlock
+	| AnthropicToolResultBlock
+	| AnthropicThinkingBlock
+	| { type: "redacted_thinking"; data: string };
+
+export interface AnthropicTool {
+	name: string;
+	description?: string;
+	input_schema: Record<string, unknown>;
+}
+
+export type AnthropicStopReason = "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | "refusal";
+
+export interface AnthropicUsage {
+	input_tokens: number;
+	output_tokens: number;
+	cache_read_input_tokens?: number;
+}
+
+export interface AnthropicMessageResponse {
+	id: string;
+	type: "message";
+	role: "assistant";
+	model: string;
+	content: Array<AnthropicTextBlock | AnthropicThinkingBlock | AnthropicToolUseBlock>;
+	stop_reason: AnthropicStopReason | null;
+	stop_sequence: string | null;
+	usage: AnthropicUsage;
+}
+
+// --- Ollama API Interfaces ---
+export interface OllamaOptions {
+	temperature?: number;
+	top_p?: number;
+	top_k?: number;
+	num_predict?: number; // -1 means no limit
+	stop?: string[];
+	presence_penalty?: number;
+	frequency_penalty?: number;
+	seed?: number;
+}
+
+export interface OllamaToolCall {
+	id?: string; // Id of the Gemini tool call, so cached thought signatures match when the call is sent back
+	function: {
+		name: string;
+		arguments: Record<string, unknown>;
+	};
+}
+
+export interface OllamaMessage {
+	role: "system" | "user" | "assistant" | "tool";
+	content: string;
+	images?: string[]; // Base64 encoded images without a data URL prefix
+	thinking?: string;
+	tool_calls?: OllamaToolCall[];
+	tool_name?: string; // Name of the tool that produced a "tool" message
+	tool_call_id?: string; // Id of the tool call a "tool" message answers, for clients that send it
+}
+
+export interface OllamaChatRequest {
+	model: string;
+	messages: OllamaMessage[];
+	tools?: Tool[];
+	format?: "json" | Record<string, unknown>;
+	options?: OllamaOptions;
+	stream?: boolean; // Defaults to true, as in Ollama
+	think?: boolean;
+	keep_alive?: string | number;
+}
+
+export interface OllamaGenerateRequest {
+	model: string;
+	prompt?: string;
+	suffix?: string;
+	system?: string;
+	images?: string[];
+	format?: "json" | Record<string, unknown>;
+	options?: OllamaOptions;
+	stream?: boolean; // Defaults to true, as in Ollama
+	think?: boolean;
+	raw?: boolean;
+	keep_alive?: string | number;
 }
 
 // --- Usage and Reasoning Data Types ---
 export interface UsageData {
 	inputTokens: number;
 	outputTokens: number;
+	reasoningTokens?: number; // Gemini thoughtsTokenCount, billed as output but not part of outputTokens
+	cachedTokens?: number; // Gemini cachedContentTokenCount, the part of inputTokens served from the context cache
+	toolUsePromptTokens?: number; // Gemini toolUsePromptTokenCount (e.g. search results), not part of inputTokens
+	inputTokensByModality?: Record<string, number>; // Gemini promptTokensDetails, e.g. { text: 12, image: 258 }
+	outputTokensByModality?: Record<string, number>; // Gemini candidatesTokensDetails
 }
 
 export interface ReasoningData {
 	reasoning: string;
 }
 
+export interface ToolCallData {
+	id: string;
+	name: string;
+	arguments: string; // JSON-encoded arguments
+	thoughtSignature?: string;
+}
+
+export interface FinishReasonData {
+	reason: string; // Raw Gemini finishReason, e.g. "STOP", "MAX_TOKENS" or "SAFETY"
+	stopSequence?: string; // The stop sequence that ended the output, when stop sequences are applied by the worker
+}
+
+export interface LogprobsData {
+	content: TokenLogprob[]; // Log probabilities of the tokens in the preceding text chunks
+}
+
+export interface GroundingData {
+	annotations: UrlCitationAnnotation[]; // Citations for the candidate text streamed so far
+}
+
+export interface SafetyRatingsData {
+	safetyRatings: SafetyRating[]; // Ratings of the candidate so far
+}
+
+export interface ErrorData {
+	message: string;
+	status: number; // HTTP status the error maps to, as returned for non-streaming requests
+	code: string | null; // Upstream Google status in lowercase, e.g. "resource_exhausted"
+	param?: string | null; // Request parameter that caused a client error, e.g. "messages"
+}
+
 // --- Stream Chunk Types ---
 export interface StreamChunk {
-	type: "text" | "usage" | "reasoning" | "thinking_content" | "real_thinking";
-	data: string | UsageData | ReasoningData;
+	type:
+		| "text"
+		| "usage"
+		| "reasoning"
+		| "thinking_content"
+		| "real_thinking"
+		| "tool_call"
+		| "finish_reason"
+		| "logprobs"
+		| "grounding"
+		| "safety_ratings"
+		| "error";
+	data:
+		| string
+		| UsageData
+		| ReasoningData
+		| ToolCallData
+		| FinishReasonData
+		| LogprobsData
+		| GroundingData
+		| SafetyRatingsData
+		| ErrorData;
+	candidateIndex?: number; // Which Gemini candidate (OpenAI choice) the chunk belongs to, defaults to 0
+	autoSwitched?: boolean; // Marks the notification chunk sent when rate limiting switched to a fallback model
+}
+
+// --- Gemini Client Types ---
+export interface GeminiToolConfig {
+	functionCallingConfig: {
+		mode: "AUTO" | "ANY" | "NONE";
+		allowedFunctionNames?: string[];
+	};
+}
+
+export interface StreamContentOptions {
+	includeReasoning?: boolean;
+	thinkingBudget?: number;
+	generationConfig?: Record<string, unknown>;
+	safetySettings?: SafetySetting[];
+	systemInstruction?: string;
+	tools?: Record<string, unknown>[];
+	toolConfig?: GeminiToolConfig;
+	streamThinkingAsContent?: boolean; // Overrides STREAM_THINKING_AS_CONTENT for clients with native thinking blocks
+}
+
+export interface CompletionChoiceResult {
+	index: number;
+	content: string;
+	reasoning?: string; // Real thinking content, when reasoning is included
+	toolCalls?: ToolCall[];
+	finishReason?: string; // Raw Gemini finishReason
+	logprobs?: TokenLogprob[];
+	annotations?: UrlCitationAnnotation[];
+	safetyRatings?: SafetyRating[];
+}
+
+export interface CompletionResult {
+	choices: CompletionChoiceResult[];
+	usage?: UsageData;
+	autoSwitched?: boolean; // The result came from a fallback model after rate limiting
 }
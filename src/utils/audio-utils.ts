@@ -0,0 +1,57 @@
+/**
+ * Utility functions for audio input validation
+ */
+
+import { MAX_AUDIO_INPUT_BYTES } from "../constants";
+import { estimateBase64Size } from "./file-utils";
+
+export interface AudioValidationResult {
+	isValid: boolean;
+	error?: string;
+	mimeType?: string;
+}
+
+// Audio formats accepted by Gemini, keyed by the OpenAI input_audio format name
+const AUDIO_MIME_TYPES: Record<string, string> = {
+	wav: "audio/wav",
+	mp3: "audio/mp3",
+	aiff: "audio/aiff",
+	aac: "audio/aac",
+	ogg: "audio/ogg",
+	flac: "audio/flac"
+};
+
+/**
+ * Validates a base64 encoded input_audio part and resolves its MIME type
+ */
+export function validateAudioInput(input: { data?: string; format?: string } | undefined): AudioValidationResult {
+	if (!input?.data) {
+		return { isValid: false, error: "Audio data is required" };
+	}
+
+	const format = (input.format || "").toLowerCase();
+	const mimeType = AUDIO_MIME_TYPES[format];
+	if (!mimeType) {
+		return {
+			isValid: false,
+			error: `Unsupported audio format: ${input.format}. Supported formats: ${Object.keys(AUDIO_MIME_TYPES).join(", ")}`
+		};
+	}
+
+	// Basic base64 validation
+	try {
+		atob(input.data.substring(0, 100)); // Test a small portion
+	} catch {
+		return { isValid: false, error: "Invalid base64 encoding" };
+	}
+
+	const sizeBytes = estimateBase64Size(input.data);
+	if (sizeBytes > MAX_AUDIO_INPUT_BYTES) {
+		return {
+			isValid: false,
+			error: `Audio is too large (${Math.round(sizeBytes / 1024)} KB). Maximum size is ${MAX_AUDIO_INPUT_BYTES / 1024 / 1024} MB`
+		};
+	}
+
+	return { isValid: true, mimeType };
+}
@@ -0,0 +1,29 @@
+/**
+ * Utility functions for embedding responses
+ */
+
+import { CHARS_PER_TOKEN_ESTIMATE } from "../constants";
+
+/**
+ * Encodes an embedding vector as base64 of little-endian float32 values, matching OpenAI's encoding_format: "base64"
+ */
+export function encodeEmbeddingBase64(values: number[]): string {
+	const buffer = new ArrayBuffer(values.length * 4);
+	const view = new DataView(buffer);
+	values.forEach((value, i) => view.setFloat32(i * 4, value, true));
+
+	let binary = "";
+	const bytes = new Uint8Array(buffer);
+	for (let i = 0; i < bytes.length; i++) {
+		binary += String.fromCharCode(bytes[i]);
+	}
+	return btoa(binary);
+}
+
+/**
+ * Estimates the token count of embedding inputs (rough approximation)
+ * Gemini's embedding endpoints don't report usage, so this is based on character length
+ */
+export function estimateEmbeddingTokens(inputs: string[]): number {
+	return inputs.reduce((total, input) => total + Math.ceil(input.length / CHARS_PER_TOKEN_ESTIMATE), 0);
+}
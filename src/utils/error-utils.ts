@@ -0,0 +1,217 @@
+/**
+ * Utility functions for translating upstream Google API errors into OpenAI-compatible errors
+ */
+
+import { ContentfulStatusCode } from "hono/utils/http-status";
+import { ErrorData, SafetyRating } from "../types";
+
+export interface OpenAIErrorBody {
+	error: {
+		message: string;
+		type: string;
+		code: string | null;
+		param: string | null;
+	};
+}
+
+export interface OpenAIErrorResponse {
+	status: ContentfulStatusCode;
+	body: OpenAIErrorBody;
+	headers: Record<string, string>;
+}
+
+// Google error body, as returned by the Code Assist API (sometimes wrapped in an array)
+interface GoogleErrorBody {
+	error?: {
+		code?: number;
+		message?: string;
+		status?: string;
+		details?: Array<{ "@type"?: string; retryDelay?: string }>;
+	};
+}
+
+// HTTP status for each canonical Google RPC status
+const GOOGLE_STATUS_TO_HTTP: Record<string, ContentfulStatusCode> = {
+	INVALID_ARGUMENT: 400,
+	FAILED_PRECONDITION: 400,
+	OUT_OF_RANGE: 400,
+	UNAUTHENTICATED: 401,
+	PERMISSION_DENIED: 403,
+	NOT_FOUND: 404,
+	ALREADY_EXISTS: 409,
+	ABORTED: 409,
+	RESOURCE_EXHAUSTED: 429,
+	CANCELLED: 499 as ContentfulStatusCode,
+	UNKNOWN: 500,
+	INTERNAL: 500,
+	DATA_LOSS: 500,
+	UNIMPLEMENTED: 501,
+	UNAVAILABLE: 503,
+	DEADLINE_EXCEEDED: 504
+};
+
+/**
+ * Error raised when a Google API request fails, keeping the upstream status for the client response.
+ */
+export class GeminiApiError extends Error {
+	/** HTTP status returned by the upstream API */
+	readonly status: number;
+	/** Canonical Google status, e.g. RESOURCE_EXHAUSTED */
+	readonly googleStatus?: string;
+	/** Seconds to wait before retrying, from the upstream RetryInfo or Retry-After header */
+	readonly retryAfter?: number;
+
+	constructor(message: string, status: number, googleStatus?: string, retryAfter?: number) {
+		super(message);
+		this.name = "GeminiApiError";
+		this.status = status;
+		this.googleStatus = googleStatus;
+		this.retryAfter = retryAfter;
+	}
+}
+
+/**
+ * Error raised when a client request cannot be translated for Gemini, reported as a 400 invalid_request_error.
+ */
+export class InvalidRequestError extends Error {
+	/** Request parameter that caused the error, e.g. "messages" */
+	readonly param?: string;
+
+	constructor(message: string, param?: string) {
+		super(message);
+		this.name = "InvalidRequestError";
+		this.param = param;
+	}
+}
+
+/**
+ * Error raised when Gemini blocks a prompt, which is reported to clients as a content_filter error.
+ */
+export class PromptBlockedError extends GeminiApiError {
+	/** Gemini's promptFeedback.blockReason, e.g. SAFETY or PROHIBITED_CONTENT */
+	readonly blockReason: string;
+
+	constructor(blockReason: string, blockReasonMessage?: string, safetyRatings: SafetyRating[] = []) {
+		const flagged = safetyRatings.filter((rating) => rating.blocked || ["MEDIUM", "HIGH"].includes(rating.probability));
+		const details = [
+			blockReasonMessage,
+			...flagged.map((rating) => `${rating.category} probability ${rating.probability}`)
+		].filter(Boolean);
+		super(`Prompt was blocked by Gemini (${blockReason})${details.length ? `: ${details.join(", ")}` : ""}`, 400);
+		this.name = "PromptBlockedError";
+		this.blockReason = blockReason;
+	}
+}
+
+/**
+ * Builds a GeminiApiError from a failed upstream response, keeping Google's error message and retry delay.
+ * @param prefix - Start of the error message, e.g. "Stream request failed"
+ */
+export async function parseGeminiApiError(response: Response, prefix: string): Promise<GeminiApiError> {
+	const errorText = await response.text();
+
+	let googleError: GoogleErrorBody["error"];
+	try {
+		const parsed = JSON.parse(errorText) as GoogleErrorBody | GoogleErrorBody[];
+		googleError = (Array.isArray(parsed) ? parsed[0] : parsed)?.error;
+	} catch {
+		// Not JSON, the raw text is used as the message
+	}
+
+	const retryDelay = googleError?.details?.find((detail) => detail.retryDelay)?.retryDelay;
+	const retryAfterHeader = Number(response.headers.get("Retry-After"));
+	const retryAfter = retryDelay
+		? Math.ceil(parseFloat(retryDelay))
+		: retryAfterHeader > 0
+			? retryAfterHeader
+			: undefined;
+
+	const detail = googleError?.message || errorText.trim() || response.statusText;
+	return new GeminiApiError(
+		`${prefix}: ${response.status}${detail ? ` - ${detail}` : ""}`,
+		response.status,
+		googleError?.status,
+		retryAfter !== undefined && !isNaN(retryAfter) ? retryAfter : undefined
+	);
+}
+
+/**
+ * Builds an error body in the OpenAI API format.
+ */
+export function openAIErrorBody(
+	message: string,
+	type: string = "invalid_request_error",
+	code: string | null = null,
+	param: string | null = null
+): OpenAIErrorBody {
+	return { error: { message, type, code, param } };
+}
+
+/**
+ * Builds an invalid_request_error body for a request parameter that failed validation.
+ */
+export function invalidRequestError(message: string | undefined, param?: string): OpenAIErrorBody {
+	return openAIErrorBody(message || "Invalid request", "invalid_request_error", null, param ?? null);
+}
+
+/**
+ * Converts any error raised while serving a request into protocol-neutral error data.
+ * Invalid requests are a 400, upstream Google errors keep their status, everything else is a 500.
+ */
+export function toErrorData(error: unknown): ErrorData {
+	const message = error instanceof Error ? error.message : String(error);
+	if (error instanceof InvalidRequestError) {
+		return { message, status: 400, code: null, param: error.param ?? null };
+	}
+	if (error instanceof PromptBlockedError) {
+		return { message, status: 400, code: "content_filter" };
+	}
+	if (!(error instanceof GeminiApiError)) {
+		return { message, status: 500, code: null };
+	}
+
+	const status =
+		(error.googleStatus && GOOGLE_STATUS_TO_HTTP[error.googleStatus]) || (error.status >= 400 ? error.status : 500);
+	return { message, status, code: error.googleStatus?.toLowerCase() || null };
+}
+
+/**
+ * Converts any error raised while serving a request into an OpenAI error response,
+ * forwarding the upstream retry delay as a Retry-After header.
+ */
+export function toOpenAIErrorResponse(error: unknown): OpenAIErrorResponse {
+	const errorData = toErrorData(error);
+
+	return {
+		status: errorData.status as ContentfulStatusCode,
+		body: toOpenAIErrorBody(errorData),
+		headers: retryAfterHeaders(error)
+	};
+}
+
+/**
+ * Builds a Retry-After header from the upstream retry delay of an error, if there is one.
+ */
+export function retryAfterHeaders(error: unknown): Record<string, string> {
+	const retryAfter = error instanceof GeminiApiError ? error.retryAfter : undefined;
+	return retryAfter !== undefined ? { "Retry-After": String(retryAfter) } : {};
+}
+
+/**
+ * Builds an OpenAI error body from error data, as used for responses and in-band stream errors.
+ */
+export function toOpenAIErrorBody(errorData: ErrorData): OpenAIErrorBody {
+	return openAIErrorBody(errorData.message, openAIErrorType(errorData.status), errorData.code, errorData.param ?? null);
+}
+
+/**
+ * Maps an HTTP status to the OpenAI error type clients use to decide how to handle it.
+ */
+function openAIErrorType(status: number): string {
+	if (status === 401) return "authentication_error";
+	if (status === 403) return "permission_error";
+	if (status === 404) return "not_found_error";
+	if (status === 429) return "rate_limit_error";
+	if (status >= 500) return "server_error";
+	return "invalid_request_error";
+}
@@ -0,0 +1,134 @@
+/**
+ * Utility functions for document file validation
+ */
+
+import { MAX_FILE_INPUT_BYTES } from "../constants";
+import { parseDataUrl } from "./image-utils";
+
+export interface FileValidationResult {
+	isValid: boolean;
+	error?: string;
+	mimeType?: string;
+	data?: string;
+}
+
+// Document MIME types accepted by Gemini as inline data
+const SUPPORTED_FILE_MIME_TYPES = [
+	"application/pdf",
+	"text/plain",
+	"text/csv",
+	"text/html",
+	"text/css",
+	"text/md",
+	"text/markdown",
+	"text/xml",
+	"text/rtf",
+	"text/javascript",
+	"application/x-javascript",
+	"text/x-python",
+	"application/x-python",
+	"application/json"
+];
+
+// MIME types for files sent without a data URL prefix, keyed by file extension.
+// Source files without a dedicated Gemini type are sent as plain text.
+const FILE_EXTENSION_MIME_TYPES: Record<string, string> = {
+	pdf: "application/pdf",
+	txt: "text/plain",
+	csv: "text/csv",
+	html: "text/html",
+	htm: "text/html",
+	css: "text/css",
+	md: "text/md",
+	xml: "text/xml",
+	rtf: "text/rtf",
+	js: "text/javascript",
+	mjs: "text/javascript",
+	py: "text/x-python",
+	json: "application/json",
+	ts: "text/plain",
+	tsx: "text/plain",
+	jsx: "text/plain",
+	java: "text/plain",
+	c: "text/plain",
+	h: "text/plain",
+	cpp: "text/plain",
+	cs: "text/plain",
+	go: "text/plain",
+	rs: "text/plain",
+	rb: "text/plain",
+	php: "text/plain",
+	sh: "text/plain",
+	sql: "text/plain",
+	yaml: "text/plain",
+	yml: "text/plain"
+};
+
+/**
+ * Validates an OpenAI file content part and resolves its MIME type and base64 data.
+ * file_data may be a data URL or raw base64, in which case the type comes from the filename.
+ */
+export function validateFileInput(
+	file: { file_data?: string; filename?: string; file_id?: string } | undefined
+): FileValidationResult {
+	if (file?.file_id && !file.file_data) {
+		return { isValid: false, error: "Uploaded file references (file_id) are not supported, send file_data instead" };
+	}
+	if (!file?.file_data) {
+		return { isValid: false, error: "File data is required" };
+	}
+
+	let mimeType: string | undefined;
+	let data: string;
+	const dataUrl = parseDataUrl(file.file_data);
+	if (dataUrl) {
+		mimeType = dataUrl.mimeType.toLowerCase();
+		data = dataUrl.data || "";
+	} else {
+		const extension = file.filename?.split(".").pop()?.toLowerCase() || "";
+		mimeType = FILE_EXTENSION_MIME_TYPES[extension];
+		data = file.file_data;
+	}
+
+	if (!mimeType) {
+		return {
+			isValid: false,
+			error: `Unable to determine the type of file '${file.filename || "unnamed"}'. Send file_data as a data URL or use a supported file extension`
+		};
+	}
+	if (!SUPPORTED_FILE_MIME_TYPES.includes(mimeType)) {
+		return {
+			isValid: false,
+			error: `Unsupported file type: ${mimeType}. Supported types: ${SUPPORTED_FILE_MIME_TYPES.join(", ")}`
+		};
+	}
+
+	if (!data) {
+		return { isValid: false, error: "File data is empty" };
+	}
+
+	// Basic base64 validation
+	try {
+		atob(data.substring(0, 100)); // Test a small portion
+	} catch {
+		return { isValid: false, error: "Invalid base64 encoding" };
+	}
+
+	const sizeBytes = estimateBase64Size(data);
+	if (sizeBytes > MAX_FILE_INPUT_BYTES) {
+		return {
+			isValid: false,
+			error: `File is too large (${Math.round(sizeBytes / 1024)} KB). Maximum size is ${MAX_FILE_INPUT_BYTES / 1024 / 1024} MB`
+		};
+	}
+
+	return { isValid: true, mimeType, data };
+}
+
+/**
+ * Estimates the decoded size in bytes of base64 encoded data
+ */
+export function estimateBase64Size(base64: string): number {
+	const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+	return (base64.length * 3) / 4 - padding;
+}
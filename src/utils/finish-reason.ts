@@ -0,0 +1,45 @@
+/**
+ * Utility functions for translating Gemini finish reasons
+ */
+
+import { OpenAIFinishReason, AnthropicStopReason } from "../types";
+
+// Gemini finish reasons that indicate the output was blocked or filtered
+const CONTENT_FILTER_REASONS = ["SAFETY", "RECITATION", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII", "IMAGE_SAFETY"];
+
+/**
+ * Maps a Gemini finishReason to its OpenAI equivalent.
+ * Gemini reports "STOP" when it ends on a function call, so tool calls take precedence over it.
+ */
+export function mapFinishReason(geminiReason: string | undefined, hasToolCalls: boolean = false): OpenAIFinishReason {
+	if (geminiReason === "MAX_TOKENS") {
+		return "length";
+	}
+	if (geminiReason && CONTENT_FILTER_REASONS.includes(geminiReason)) {
+		return "content_filter";
+	}
+	if (hasToolCalls) {
+		return "tool_calls";
+	}
+	return "stop";
+}
+
+/**
+ * Maps a Gemini finishReason to an Anthropic stop_reason.
+ */
+export function mapFinishReasonToAnthropic(
+	geminiReason: string | undefined,
+	hasToolUse: boolean = false
+): AnthropicStopReason {
+	const finishReason = mapFinishReason(geminiReason, hasToolUse);
+	if (finishReason === "length") {
+		return "max_tokens";
+	}
+	if (finishReason === "content_filter") {
+		return "refusal";
+	}
+	if (finishReason === "tool_calls") {
+		return "tool_use";
+	}
+	return "end_turn";
+}
@@ -0,0 +1,91 @@
+/**
+ * Utility functions for converting Gemini grounding metadata into OpenAI citation annotations
+ */
+
+import { UrlCitationAnnotation } from "../types";
+
+export interface GeminiGroundingMetadata {
+	webSearchQueries?: string[];
+	groundingChunks?: Array<{ web?: { uri?: string; title?: string } }>;
+	groundingSupports?: Array<{
+		segment?: { startIndex?: number; endIndex?: number; text?: string };
+		groundingChunkIndices?: number[];
+	}>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Converts Gemini grounding supports into OpenAI url_citation annotations, one per cited source.
+ * Gemini measures segments in UTF-8 bytes of the candidate text, OpenAI in characters of the message content.
+ */
+export function toUrlCitations(metadata: GeminiGroundingMetadata, text: string): UrlCitationAnnotation[] {
+	const bytes = encoder.encode(text);
+	const toCharIndex = (byteIndex: number) => decoder.decode(bytes.subarray(0, byteIndex)).length;
+	const sources = metadata.groundingChunks || [];
+
+	return (metadata.groundingSupports || []).flatMap((support) => {
+		if (support.segment?.endIndex === undefined) {
+			return [];
+		}
+		// Gemini omits startIndex when the segment starts at the beginning of the text
+		const startIndex = toCharIndex(support.segment.startIndex ?? 0);
+		const endIndex = toCharIndex(support.segment.endIndex);
+
+		return (support.groundingChunkIndices || []).flatMap((chunkIndex): UrlCitationAnnotation[] => {
+			const web = sources[chunkIndex]?.web;
+			if (!web?.uri) {
+				return [];
+			}
+			return [
+				{
+					type: "url_citation",
+					url_citation: { start_index: startIndex, end_index: endIndex, url: web.uri, title: web.title || web.uri }
+				}
+			];
+		});
+	});
+}
+
+/**
+ * Tracks where Gemini's answer text sits in the content a client receives, so citations can point into it.
+ * Content can also hold text Gemini did not generate as answer text, i.e. auto-switch notifications,
+ * thinking streamed as content and rendered code execution parts.
+ */
+export class CitationAligner {
+	private answerLength = 0;
+	private insertions: Array<{ position: number; length: number }> = [];
+
+	/**
+	 * Records content sent to the client, in order.
+	 * @param isAnswer - Whether the text is Gemini's answer text, which grounding segments point into
+	 */
+	addContent(text: string, isAnswer: boolean): void {
+		if (isAnswer) {
+			this.answerLength += text.length;
+		} else if (text) {
+			this.insertions.push({ position: this.answerLength, length: text.length });
+		}
+	}
+
+	/**
+	 * Moves citation ranges from the answer text onto the content sent to the client.
+	 */
+	align(annotations: UrlCitationAnnotation[]): UrlCitationAnnotation[] {
+		// Text inserted at a range boundary lies outside the range
+		const shift = (index: number, isEnd: boolean) =>
+			this.insertions
+				.filter((insertion) => (isEnd ? insertion.position < index : insertion.position <= index))
+				.reduce((total, insertion) => total + insertion.length, index);
+
+		return annotations.map((annotation) => ({
+			...annotation,
+			url_citation: {
+				...annotation.url_citation,
+				start_index: shift(annotation.url_citation.start_index, false),
+				end_index: shift(annotation.url_citation.end_index, true)
+			}
+		}));
+	}
+}
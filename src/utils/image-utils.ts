@@ -114,3 +114,32 @@ export function estimateImageTokens(imageUrl: string, detail: "low" | "high" | "
 
 	return 340; // Default estimate for URL images
 }
+
+/**
+ * Detects an image MIME type from the leading bytes ("magic numbers") of the image data
+ */
+export function detectImageMimeType(bytes: Uint8Array): string | null {
+	const startsWith = (signature: number[], offset: number = 0) =>
+		signature.every((byte, i) => bytes[offset + i] === byte);
+
+	if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+	if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+	if (startsWith([0x47, 0x49, 0x46, 0x38])) return "image/gif";
+	if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return "image/webp";
+	return null;
+}
+
+/**
+ * Converts raw base64 image data (without a data URL prefix) into a data URL, detecting its MIME type
+ */
+export function base64ImageToDataUrl(base64: string): string | null {
+	let header: string;
+	try {
+		header = atob(base64.substring(0, 16)); // 16 base64 characters decode to the first 12 bytes
+	} catch {
+		return null;
+	}
+
+	const mimeType = detectImageMimeType(Uint8Array.from(header, (char) => char.charCodeAt(0)));
+	return mimeType ? `data:${mimeType};base64,${base64}` : null;
+}
@@ -0,0 +1,42 @@
+/**
+ * Utility functions for converting token log probabilities between Gemini and OpenAI formats
+ */
+
+import { TokenLogprob, TopLogprob } from "../types";
+
+interface GeminiLogprobsCandidate {
+	token?: string;
+	tokenId?: number;
+	logProbability?: number;
+}
+
+export interface GeminiLogprobsResult {
+	topCandidates?: Array<{ candidates?: GeminiLogprobsCandidate[] }>;
+	chosenCandidates?: GeminiLogprobsCandidate[];
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Converts a single Gemini logprobs candidate into an OpenAI token logprob.
+ * OpenAI includes the UTF-8 bytes of every token so clients can rebuild multi-byte characters.
+ */
+function toTopLogprob(candidate: GeminiLogprobsCandidate): TopLogprob {
+	const token = candidate.token || "";
+	return {
+		token,
+		logprob: candidate.logProbability ?? 0,
+		bytes: Array.from(encoder.encode(token))
+	};
+}
+
+/**
+ * Converts a Gemini logprobsResult into OpenAI logprobs.content entries.
+ * topCandidates is aligned with chosenCandidates, one entry per decoding step.
+ */
+export function toOpenAILogprobs(result: GeminiLogprobsResult): TokenLogprob[] {
+	return (result.chosenCandidates || []).map((chosen, step) => ({
+		...toTopLogprob(chosen),
+		top_logprobs: (result.topCandidates?.[step]?.candidates || []).map(toTopLogprob)
+	}));
+}
@@ -0,0 +1,38 @@
+/**
+ * Utility functions for rendering non-text Gemini output parts as markdown
+ */
+
+export interface GeminiExecutableCode {
+	language?: string; // e.g. "PYTHON"
+	code?: string;
+}
+
+export interface GeminiCodeExecutionResult {
+	outcome?: string; // e.g. "OUTCOME_OK", "OUTCOME_FAILED" or "OUTCOME_DEADLINE_EXCEEDED"
+	output?: string;
+}
+
+/**
+ * Renders code generated by Gemini's code execution tool as a fenced code block.
+ */
+export function renderExecutableCode(executableCode: GeminiExecutableCode): string {
+	const language =
+		executableCode.language === "LANGUAGE_UNSPECIFIED" ? "" : (executableCode.language || "").toLowerCase();
+	return `\n\`\`\`${language}\n${(executableCode.code || "").trimEnd()}\n\`\`\`\n`;
+}
+
+/**
+ * Renders the output of executed code as a fenced block, noting when the execution did not succeed.
+ */
+export function renderCodeExecutionResult(result: GeminiCodeExecutionResult): string {
+	const output = (result.output || "").trimEnd();
+	const failure = result.outcome && result.outcome !== "OUTCOME_OK" ? `Execution failed (${result.outcome})\n` : "";
+	return `\n${failure}\`\`\`output\n${output}\n\`\`\`\n`;
+}
+
+/**
+ * Renders an image produced by the model, such as a code execution plot, as a markdown image with a data URL.
+ */
+export function renderInlineImage(inlineData: { mimeType: string; data: string }): string {
+	return `\n![image](data:${inlineData.mimeType};base64,${inlineData.data})\n`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Utility functions for reading client requests
+ */
+
+import { HonoRequest } from "hono";
+import { InvalidRequestError } from "./error-utils";
+
+/**
+ * Parses the JSON request body, rejecting a malformed body as an invalid request instead of a server error.
+ */
+export async function readJsonBody<T>(request: HonoRequest): Promise<T> {
+	try {
+		return await request.json<T>();
+	} catch {
+		throw new InvalidRequestError("Request body must be valid JSON");
+	}
+}
@@ -0,0 +1,103 @@
+/**
+ * Utility functions for applying stop sequences to Gemini's output chunks
+ */
+
+import { StreamChunk, FinishReasonData } from "../types";
+
+/**
+ * Finds the stop sequence that ended each candidate, so it can be reported in the finish reason.
+ * Gemini stops generating at the stop sequences itself but does not say which one matched, and the
+ * sequence can still reach the output, e.g. when it is split across chunks. The output is cut there.
+ * Text that could be the start of a stop sequence is held back until the following text decides it.
+ */
+export async function* applyStopSequences(
+	stream: AsyncIterable<StreamChunk>,
+	stopSequences: string[]
+): AsyncGenerator<StreamChunk> {
+	const sequences = stopSequences.filter(Boolean);
+	if (!sequences.length) {
+		yield* stream;
+		return;
+	}
+
+	const pendingTexts = new Map<number, string>();
+	const matchedCandidates = new Set<number>();
+
+	for await (const chunk of stream) {
+		// Usage covers all candidates and carries no candidate index
+		if (chunk.type === "usage") {
+			yield chunk;
+			continue;
+		}
+
+		const candidateIndex = chunk.candidateIndex ?? 0;
+		if (matchedCandidates.has(candidateIndex)) {
+			// The candidate already ended at a stop sequence, including its finish reason
+			continue;
+		}
+
+		const pendingText = pendingTexts.get(candidateIndex) || "";
+		if (chunk.type !== "text" || typeof chunk.data !== "string") {
+			// Anything else ends the text a stop sequence could span
+			if (pendingText) {
+				yield { type: "text", data: pendingText, candidateIndex: chunk.candidateIndex };
+				pendingTexts.delete(candidateIndex);
+			}
+			yield chunk;
+			continue;
+		}
+
+		const text = pendingText + chunk.data;
+		const match = findStopSequence(text, sequences);
+		if (match) {
+			matchedCandidates.add(candidateIndex);
+			pendingTexts.delete(candidateIndex);
+			if (match.index > 0) {
+				yield { ...chunk, data: text.slice(0, match.index) };
+			}
+			const finishReasonData: FinishReasonData = { reason: "STOP", stopSequence: match.sequence };
+			yield { type: "finish_reason", data: finishReasonData, candidateIndex: chunk.candidateIndex };
+			continue;
+		}
+
+		const heldBack = partialMatchLength(text, sequences);
+		if (heldBack < text.length) {
+			yield { ...chunk, data: text.slice(0, text.length - heldBack) };
+		}
+		pendingTexts.set(candidateIndex, text.slice(text.length - heldBack));
+	}
+
+	for (const [candidateIndex, pendingText] of pendingTexts) {
+		if (pendingText) {
+			yield { type: "text", data: pendingText, candidateIndex };
+		}
+	}
+}
+
+/**
+ * Finds the stop sequence that occurs first in the text.
+ */
+function findStopSequence(text: string, sequences: string[]): { index: number; sequence: string } | null {
+	let match: { index: number; sequence: string } | null = null;
+	for (const sequence of sequences) {
+		const index = text.indexOf(sequence);
+		if (index !== -1 && (!match || index < match.index)) {
+			match = { index, sequence };
+		}
+	}
+	return match;
+}
+
+/**
+ * Length of the longest end of the text that is the start of a stop sequence.
+ */
+function partialMatchLength(text: string, sequences: string[]): number {
+	const maxLength = Math.min(text.length, Math.max(...sequences.map((sequence) => sequence.length)) - 1);
+	for (let length = maxLength; length > 0; length--) {
+		const end = text.slice(text.length - length);
+		if (sequences.some((sequence) => sequence.startsWith(end))) {
+			return length;
+		}
+	}
+	return 0;
+}
@@ -0,0 +1,137 @@
+/**
+ * Utility functions for converting token usage between Gemini and OpenAI formats
+ */
+
+import { UsageData, ChatCompletionUsage, ResponseUsage, AnthropicUsage } from "../types";
+
+interface GeminiModalityTokenCount {
+	modality?: string; // e.g. "TEXT", "IMAGE", "AUDIO", "VIDEO" or "DOCUMENT"
+	tokenCount?: number;
+}
+
+export interface GeminiUsageMetadata {
+	promptTokenCount?: number;
+	candidatesTokenCount?: number;
+	thoughtsTokenCount?: number;
+	cachedContentTokenCount?: number;
+	toolUsePromptTokenCount?: number;
+	promptTokensDetails?: GeminiModalityTokenCount[];
+	candidatesTokensDetails?: GeminiModalityTokenCount[];
+}
+
+/**
+ * Converts Gemini usageMetadata into usage data. Optional counts are only set when Gemini reports them.
+ */
+export function fromGeminiUsage(usage: GeminiUsageMetadata): UsageData {
+	const inputTokensByModality = toModalityTokens(usage.promptTokensDetails);
+	const outputTokensByModality = toModalityTokens(usage.candidatesTokensDetails);
+
+	return {
+		inputTokens: usage.promptTokenCount || 0,
+		outputTokens: usage.candidatesTokenCount || 0,
+		...(usage.thoughtsTokenCount && { reasoningTokens: usage.thoughtsTokenCount }),
+		...(usage.cachedContentTokenCount && { cachedTokens: usage.cachedContentTokenCount }),
+		...(usage.toolUsePromptTokenCount && { toolUsePromptTokens: usage.toolUsePromptTokenCount }),
+		...(inputTokensByModality && { inputTokensByModality }),
+		...(outputTokensByModality && { outputTokensByModality })
+	};
+}
+
+/**
+ * Converts Gemini usage data into an OpenAI usage object.
+ * OpenAI counts reasoning tokens as part of completion_tokens, so thoughts are added to the output count.
+ * Tool use prompt tokens are billed as input, so they are added to prompt_tokens.
+ */
+export function toOpenAIUsage(usage: UsageData): ChatCompletionUsage {
+	const reasoningTokens = usage.reasoningTokens || 0;
+	const promptTokens = usage.inputTokens + (usage.toolUsePromptTokens || 0);
+	const completionTokens = usage.outputTokens + reasoningTokens;
+
+	return {
+		prompt_tokens: promptTokens,
+		completion_tokens: completionTokens,
+		total_tokens: promptTokens + completionTokens,
+		prompt_tokens_details: {
+			cached_tokens: usage.cachedTokens || 0,
+			...(usage.toolUsePromptTokens && { tool_use_prompt_tokens: usage.toolUsePromptTokens }),
+			...(usage.inputTokensByModality && { modality_tokens: usage.inputTokensByModality })
+		},
+		completion_tokens_details: {
+			reasoning_tokens: reasoningTokens,
+			...(usage.outputTokensByModality && { modality_tokens: usage.outputTokensByModality })
+		}
+	};
+}
+
+/**
+ * Adds two usage reports together, e.g. when one API request fans out into several Gemini requests.
+ */
+export function addUsage(a: UsageData, b: UsageData): UsageData {
+	return {
+		inputTokens: a.inputTokens + b.inputTokens,
+		outputTokens: a.outputTokens + b.outputTokens,
+		reasoningTokens: (a.reasoningTokens || 0) + (b.reasoningTokens || 0),
+		cachedTokens: (a.cachedTokens || 0) + (b.cachedTokens || 0),
+		toolUsePromptTokens: (a.toolUsePromptTokens || 0) + (b.toolUsePromptTokens || 0),
+		inputTokensByModality: addModalityTokens(a.inputTokensByModality, b.inputTokensByModality),
+		outputTokensByModality: addModalityTokens(a.outputTokensByModality, b.outputTokensByModality)
+	};
+}
+
+/**
+ * Converts Gemini usage data into a Responses API usage object.
+ */
+export function toResponseUsage(usage: UsageData): ResponseUsage {
+	const reasoningTokens = usage.reasoningTokens || 0;
+	const inputTokens = usage.inputTokens + (usage.toolUsePromptTokens || 0);
+	const outputTokens = usage.outputTokens + reasoningTokens;
+
+	return {
+		input_tokens: inputTokens,
+		input_tokens_details: { cached_tokens: usage.cachedTokens || 0 },
+		output_tokens: outputTokens,
+		output_tokens_details: { reasoning_tokens: reasoningTokens },
+		total_tokens: inputTokens + outputTokens
+	};
+}
+
+/**
+ * Converts Gemini usage data into an Anthropic usage object.
+ * Anthropic bills thinking as output, so reasoning tokens are included in output_tokens.
+ * Anthropic's input_tokens excludes cache reads, which are reported separately.
+ */
+export function toAnthropicUsage(usage: UsageData): AnthropicUsage {
+	const cachedTokens = usage.cachedTokens || 0;
+
+	return {
+		input_tokens: usage.inputTokens - cachedTokens + (usage.toolUsePromptTokens || 0),
+		output_tokens: usage.outputTokens + (usage.reasoningTokens || 0),
+		...(cachedTokens && { cache_read_input_tokens: cachedTokens })
+	};
+}
+
+/**
+ * Converts Gemini per-modality token counts into a map keyed by lowercase modality name.
+ */
+function toModalityTokens(details: GeminiModalityTokenCount[] | undefined): Record<string, number> | undefined {
+	if (!details?.length) {
+		return undefined;
+	}
+	return Object.fromEntries(
+		details.map((detail) => [(detail.modality || "MODALITY_UNSPECIFIED").toLowerCase(), detail.tokenCount || 0])
+	);
+}
+
+function addModalityTokens(
+	a: Record<string, number> | undefined,
+	b: Record<string, number> | undefined
+): Record<string, number> | undefined {
+	if (!a || !b) {
+		return a || b;
+	}
+	const sum = { ...a };
+	for (const [modality, tokens] of Object.entries(b)) {
+		sum[modality] = (sum[modality] || 0) + tokens;
+	}
+	return sum;
+}
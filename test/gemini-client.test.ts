@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GeminiApiClient } from "../src/gemini-client";
+import { AuthManager } from "../src/auth";
+import { ChatMessage, Env } from "../src/types";
+import { InvalidRequestError } from "../src/utils/error-utils";
+
+const MODEL = "gemini-2.5-flash";
+
+function createClient(): GeminiApiClient {
+	const env = {
+		GEMINI_PROJECT_ID: "test-project",
+		GEMINI_CLI_KV: { get: async () => null, put: async () => undefined }
+	} as unknown as Env;
+	const authManager = {
+		initializeAuth: async () => undefined,
+		getAccessToken: () => "token"
+	} as unknown as AuthManager;
+	return new GeminiApiClient(env, authManager);
+}
+
+/**
+ * Stubs fetch with a Gemini SSE stream and returns the request bodies sent upstream.
+ */
+function stubGemini(...responses: unknown[]): unknown[] {
+	const requests: unknown[] = [];
+	const body = responses.map((response) => `data: ${JSON.stringify({ response })}\n\n`).join("");
+	vi.stubGlobal(
+		"fetch",
+		vi.fn(async (_url: string, init: RequestInit) => {
+			requests.push(JSON.parse(init.body as string));
+			return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+		})
+	);
+	return requests;
+}
+
+const toolCallMessages: ChatMessage[] = [
+	{ role: "user", content: "What's the weather in Paris and Rome?" },
+	{
+		role: "assistant",
+		content: null,
+		tool_calls: [
+			{ id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } },
+			{ id: "call_2", type: "function", function: { name: "get_weather", arguments: '{"city":"Rome"}' } }
+		]
+	},
+	{ role: "tool", tool_call_id: "call_1", content: '{"temperature":21}' },
+	{ role: "tool", tool_call_id: "call_2", content: "sunny" }
+];
+
+describe("GeminiApiClient", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("maps tool calls to function calls and groups parallel tool results into one turn", async () => {
+		const requests = stubGemini({ candidates: [{ content: { parts: [{ text: "Done" }] }, finishReason: "STOP" }] });
+
+		await createClient().getCompletion(MODEL, "", toolCallMessages);
+
+		expect(requests).toHaveLength(1);
+		expect((requests[0] as { request: { contents: unknown } }).request.contents).toEqual([
+			{ role: "user", parts: [{ text: "What's the weather in Paris and Rome?" }] },
+			{
+				role: "model",
+				parts: [
+					{ functionCall: { name: "get_weather", args: { city: "Paris" } } },
+					{ functionCall: { name: "get_weather", args: { city: "Rome" } } }
+				]
+			},
+			{
+				role: "user",
+				parts: [
+					{ functionResponse: { name: "get_weather", response: { temperature: 21 } } },
+					{ functionResponse: { name: "get_weather", response: { content: "sunny" } } }
+				]
+			}
+		]);
+	});
+
+	it("sends array text content alongside tool calls", async () => {
+		const requests = stubGemini({ candidates: [{ content: { parts: [{ text: "Done" }] }, finishReason: "STOP" }] });
+		const messages: ChatMessage[] = [
+			toolCallMessages[0],
+			{ ...toolCallMessages[1], content: [{ type: "text", text: "Checking both cities." }] },
+			...toolCallMessages.slice(2)
+		];
+
+		await createClient().getCompletion(MODEL, "", messages);
+
+		const contents = (requests[0] as { request: { contents: { parts: unknown[] }[] } }).request.contents;
+		expect(contents[1].parts[0]).toEqual({ text: "Checking both cities." });
+	});
+
+	it.each([
+		["an unknown tool_call_id", [{ role: "tool", tool_call_id: "call_missing", content: "sunny" }]],
+		[
+			"malformed tool call arguments",
+			[{ role: "assistant", tool_calls: [{ id: "call_1", type: "function", function: { name: "f", arguments: "{" } }] }]
+		]
+	])("rejects %s as an invalid request", async (_description, messages) => {
+		stubGemini();
+
+		const completion = createClient().getCompletion(MODEL, "", [
+			{ role: "user", content: "Hi" },
+			...(messages as ChatMessage[])
+		]);
+
+		await expect(completion).rejects.toBeInstanceOf(InvalidRequestError);
+		await expect(completion).rejects.toMatchObject({ param: "messages" });
+	});
+
+	it("rejects remote images the route did not download", async () => {
+		const requests = stubGemini();
+
+		const completion = createClient().getCompletion(MODEL, "", [
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "Describe this" },
+					{ type: "image_url", image_url: { url: "https://example.com/cat.png" } }
+				]
+			}
+		]);
+
+		await expect(completion).rejects.toThrow("remote image was not downloaded");
+		expect(requests).toHaveLength(0);
+	});
+
+	it("maps function calls in the response to tool calls", async () => {
+		stubGemini({
+			candidates: [
+				{
+					content: { parts: [{ functionCall: { name: "get_weather", args: { city: "Paris" } } }] },
+					finishReason: "STOP"
+				}
+			],
+			usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 3 }
+		});
+
+		const result = await createClient().getCompletion(MODEL, "", [{ role: "user", content: "Weather in Paris?" }]);
+
+		expect(result.choices).toHaveLength(1);
+		expect(result.choices[0].toolCalls).toEqual([
+			{
+				id: expect.any(String),
+				type: "function",
+				function: { name: "get_weather", arguments: '{"city":"Paris"}' }
+			}
+		]);
+		expect(result.choices[0].finishReason).toBe("STOP");
+		expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 3 });
+	});
+
+	it("points citations at the model text when code execution parts are rendered in between", async () => {
+		stubGemini({
+			candidates: [
+				{
+					content: {
+						parts: [
+							{ text: "Let me check. " },
+							{ executableCode: { language: "PYTHON", code: "print(21 * 2)" } },
+							{ codeExecutionResult: { outcome: "OUTCOME_OK", output: "42" } },
+							{ text: "Paris is sunny." }
+						]
+					},
+					groundingMetadata: {
+						groundingChunks: [{ web: { uri: "https://example.com/weather", title: "Weather" } }],
+						groundingSupports: [{ segment: { startIndex: 14, endIndex: 29 }, groundingChunkIndices: [0] }]
+					},
+					finishReason: "STOP"
+				}
+			]
+		});
+
+		const result = await createClient().getCompletion(MODEL, "", [{ role: "user", content: "Weather in Paris?" }]);
+
+		const [choice] = result.choices;
+		expect(choice.content).toContain("print(21 * 2)");
+		expect(choice.annotations).toHaveLength(1);
+		const { start_index, end_index } = choice.annotations![0].url_citation;
+		expect(choice.content.slice(start_index, end_index)).toBe("Paris is sunny.");
+	});
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import { JsonSchemaConverter } from "../../src/helpers/json-schema-converter";
+
+describe("JsonSchemaConverter.convert", () => {
+	it("keeps supported keywords and drops the rest", () => {
+		const result = JsonSchemaConverter.convert({
+			$schema: "http://json-schema.org/draft-07/schema#",
+			type: "object",
+			title: "Weather",
+			properties: { city: { type: "string", description: "City name", examples: ["Paris"] } },
+			required: ["city"],
+			additionalProperties: false
+		});
+
+		expect(result).toEqual({
+			isValid: true,
+			schema: {
+				type: "object",
+				title: "Weather",
+				properties: { city: { type: "string", description: "City name" } },
+				required: ["city"]
+			}
+		});
+	});
+
+	it("turns null in type arrays, enums and anyOf into nullable", () => {
+		const result = JsonSchemaConverter.convert({
+			type: "object",
+			properties: {
+				name: { type: ["string", "null"] },
+				unit: { enum: ["celsius", "fahrenheit", null] },
+				count: { anyOf: [{ type: "integer" }, { type: "null" }] }
+			}
+		});
+
+		expect(result.schema?.properties).toEqual({
+			name: { type: "string", nullable: true },
+			unit: { type: "string", enum: ["celsius", "fahrenheit"], nullable: true },
+			count: { type: "integer", nullable: true }
+		});
+	});
+
+	it("converts const to a single value enum", () => {
+		const result = JsonSchemaConverter.convert({ const: "fixed" });
+
+		expect(result.schema).toEqual({ type: "string", enum: ["fixed"] });
+	});
+
+	it("inlines local $ref definitions with sibling keywords taking precedence", () => {
+		const result = JsonSchemaConverter.convert({
+			type: "object",
+			properties: { home: { $ref: "#/$defs/Address", description: "Home address" } },
+			$defs: { Address: { type: "object", description: "An address", properties: { street: { type: "string" } } } }
+		});
+
+		expect(result.schema?.properties).toEqual({
+			home: { type: "object", description: "Home address", properties: { street: { type: "string" } } }
+		});
+	});
+
+	it("merges allOf into a single object schema", () => {
+		const result = JsonSchemaConverter.convert({
+			allOf: [
+				{ type: "object", properties: { a: { type: "string" } }, required: ["a"] },
+				{ properties: { b: { type: "number" } }, required: ["b"] }
+			]
+		});
+
+		expect(result.schema).toEqual({
+			type: "object",
+			properties: { a: { type: "string" }, b: { type: "number" } },
+			required: ["a", "b"]
+		});
+	});
+
+	it("keeps the formats Gemini supports", () => {
+		const result = JsonSchemaConverter.convert({
+			type: "object",
+			properties: { at: { type: "string", format: "date-time" }, count: { type: "integer", format: "int64" } }
+		});
+
+		expect(result.schema?.properties).toEqual({
+			at: { type: "string", format: "date-time" },
+			count: { type: "integer", format: "int64" }
+		});
+	});
+
+	it("rejects a schema that is not an object", () => {
+		expect(JsonSchemaConverter.convert("string")).toEqual({ isValid: false, error: "Schema must be a JSON object" });
+		expect(JsonSchemaConverter.convert([]).isValid).toBe(false);
+	});
+
+	it.each([
+		["map-style additionalProperties", { type: "object", additionalProperties: { type: "string" } }],
+		["free-form objects", { type: "object", additionalProperties: true }],
+		["unsupported string formats", { type: "string", format: "uri" }],
+		["integer enums", { type: "integer", enum: [1, 2, 3] }],
+		["non-string const", { const: 42 }],
+		["tuple items", { type: "array", items: [{ type: "string" }, { type: "number" }] }],
+		["null-only types", { type: "null" }],
+		["recursive $ref", { $ref: "#/$defs/Node", $defs: { Node: { properties: { next: { $ref: "#/$defs/Node" } } } } }],
+		["remote $ref", { $ref: "https://example.com/schema.json" }],
+		["unresolved $ref", { $ref: "#/$defs/Missing" }]
+	])("rejects %s in strict mode", (_name, schema) => {
+		const result = JsonSchemaConverter.convert(schema);
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toMatch(/^#/);
+	});
+
+	describe("lenient mode", () => {
+		const convertLeniently = (schema: unknown) => JsonSchemaConverter.convert(schema, { lenient: true });
+
+		it("drops map-style additionalProperties", () => {
+			const result = convertLeniently({
+				type: "object",
+				properties: { labels: { type: "object", additionalProperties: { type: "string" } } }
+			});
+
+			expect(result.schema?.properties).toEqual({ labels: { type: "object" } });
+		});
+
+		it("drops free-form additionalProperties and unsupported formats", () => {
+			const result = convertLeniently({
+				type: "object",
+				properties: {
+					metadata: { type: "object", additionalProperties: true },
+					homepage: { type: "string", format: "uri" },
+					email: { type: "string", format: "email", description: "Contact address" }
+				}
+			});
+
+			expect(result.schema?.properties).toEqual({
+				metadata: { type: "object" },
+				homepage: { type: "string" },
+				email: { type: "string", description: "Contact address" }
+			});
+		});
+
+		it("drops non-string enums and const but keeps the type", () => {
+			const result = convertLeniently({
+				type: "object",
+				properties: { level: { type: "integer", enum: [1, 2, 3] }, answer: { type: "number", const: 42 } }
+			});
+
+			expect(result.schema?.properties).toEqual({ level: { type: "integer" }, answer: { type: "number" } });
+		});
+
+		it("turns tuple items into alternatives for every item", () => {
+			const result = convertLeniently({ type: "array", items: [{ type: "string" }, { type: "number" }] });
+
+			expect(result.schema).toEqual({ type: "array", items: { anyOf: [{ type: "string" }, { type: "number" }] } });
+		});
+
+		it("drops null-only properties and their required entries", () => {
+			const result = convertLeniently({
+				type: "object",
+				properties: { name: { type: "string" }, nothing: { type: "null" } },
+				required: ["name", "nothing"]
+			});
+
+			expect(result.schema).toEqual({ type: "object", properties: { name: { type: "string" } }, required: ["name"] });
+		});
+
+		it("stops recursive $ref at an object without properties", () => {
+			const result = convertLeniently({
+				type: "object",
+				properties: { root: { $ref: "#/$defs/Node" } },
+				$defs: { Node: { type: "object", properties: { child: { $ref: "#/$defs/Node" } } } }
+			});
+
+			expect(result.schema?.properties).toEqual({
+				root: { type: "object", properties: { child: { type: "object" } } }
+			});
+		});
+
+		it("still rejects a schema that is not an object", () => {
+			expect(convertLeniently(null).isValid).toBe(false);
+		});
+	});
+});
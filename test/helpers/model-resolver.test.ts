@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { ModelResolver } from "../../src/helpers/model-resolver";
+import { Env } from "../../src/types";
+
+const createResolver = (modelAliases?: unknown) =>
+	new ModelResolver({
+		MODEL_ALIASES: typeof modelAliases === "string" ? modelAliases : JSON.stringify(modelAliases)
+	} as Env);
+
+describe("ModelResolver.resolve", () => {
+	it("resolves Gemini model names as they are", () => {
+		expect(createResolver().resolve("gemini-2.5-flash")).toEqual({
+			model: "gemini-2.5-flash",
+			thinkingBudget: undefined,
+			search: false
+		});
+	});
+
+	it("returns null for unknown models and suffixes", () => {
+		const resolver = createResolver();
+
+		expect(resolver.resolve("gpt-4o")).toBeNull();
+		expect(resolver.resolve("gemini-2.5-flash:turbo")).toBeNull();
+		expect(resolver.resolve("gemini-2.5-flash:thinking-extreme")).toBeNull();
+	});
+
+	it("applies thinking and search suffixes", () => {
+		expect(createResolver().resolve("gemini-2.5-pro:thinking-low:search")).toEqual({
+			model: "gemini-2.5-pro",
+			thinkingBudget: 1024,
+			search: true
+		});
+	});
+
+	it("clamps suffix thinking budgets to the model's range", () => {
+		const resolver = createResolver();
+
+		expect(resolver.resolve("gemini-2.5-pro:thinking-minimal")?.thinkingBudget).toBe(128);
+		expect(resolver.resolve("gemini-2.5-flash:thinking-high")?.thinkingBudget).toBe(24576);
+	});
+
+	it("resolves aliases with their thinking budget and suffixes", () => {
+		const resolver = createResolver({
+			"gpt-4o": "gemini-2.5-flash:search",
+			o3: { model: "gemini-2.5-pro", thinkingBudget: 16384 }
+		});
+
+		expect(resolver.resolve("gpt-4o")).toEqual({ model: "gemini-2.5-flash", thinkingBudget: undefined, search: true });
+		expect(resolver.resolve("o3")).toEqual({ model: "gemini-2.5-pro", thinkingBudget: 16384, search: false });
+		// Requested suffixes extend the alias and override its thinking budget
+		expect(resolver.resolve("o3:thinking-low")).toEqual({
+			model: "gemini-2.5-pro",
+			thinkingBudget: 1024,
+			search: false
+		});
+	});
+
+	it("ignores invalid alias configuration", () => {
+		expect(createResolver("not json").resolve("gpt-4o")).toBeNull();
+		expect(createResolver(["gemini-2.5-flash"]).resolve("0")).toBeNull();
+		expect(createResolver({ "gpt-4o": 42 }).resolve("gpt-4o")).toBeNull();
+	});
+});
+
+describe("ModelResolver.getAliases", () => {
+	it("lists only aliases that resolve to a supported model", () => {
+		const resolver = createResolver({ fast: "gemini-2.5-flash", missing: "gemini-1.0-ultra" });
+
+		expect(resolver.getAliases()).toEqual({
+			fast: { model: "gemini-2.5-flash", thinkingBudget: undefined, search: false }
+		});
+	});
+});
+
+describe("ModelResolver.unknownModelMessage", () => {
+	it("lists the Gemini models and the configured aliases", () => {
+		const message = createResolver({ fast: "gemini-2.5-flash" }).unknownModelMessage("gpt-5");
+
+		expect(message).toMatch(/^Model 'gpt-5' not found\. Available models: /);
+		expect(message).toContain("gemini-2.5-pro");
+		expect(message).toMatch(/, fast$/);
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { ResponseCache } from "../../src/helpers/response-cache";
+import { Env, StreamChunk } from "../../src/types";
+
+const enabledCache = new ResponseCache({ ENABLE_RESPONSE_CACHE: "true" } as Env);
+
+describe("ResponseCache.getKey", () => {
+	const request = { model: "gemini-2.5-flash", messages: [{ role: "user", content: "Hi" }] };
+
+	it("only applies to temperature 0 requests when the cache is enabled", async () => {
+		expect(await new ResponseCache({} as Env).getKey("chat", request, 0)).toBeNull();
+		expect(await enabledCache.getKey("chat", request, undefined)).toBeNull();
+		expect(await enabledCache.getKey("chat", request, 0.2)).toBeNull();
+		expect(await enabledCache.getKey("chat", request, "0")).toBeNull();
+		expect(await enabledCache.getKey("chat", request, 0)).toMatch(/^response_cache:chat:[0-9a-f]{64}$/);
+	});
+
+	it("does not depend on the order of object keys", async () => {
+		const reordered = { messages: [{ content: "Hi", role: "user" }], model: "gemini-2.5-flash" };
+
+		expect(await enabledCache.getKey("chat", reordered, 0)).toBe(await enabledCache.getKey("chat", request, 0));
+	});
+
+	it("separates scopes and distinct requests", async () => {
+		const key = await enabledCache.getKey("chat", request, 0);
+
+		expect(await enabledCache.getKey("native:generateContent", request, 0)).not.toBe(key);
+		expect(await enabledCache.getKey("chat", { ...request, model: "gemini-2.5-pro" }, 0)).not.toBe(key);
+		expect(await enabledCache.getKey("chat", { ...request, messages: [] }, 0)).not.toBe(key);
+	});
+});
+
+describe("ResponseCache.statusHeaders", () => {
+	it("reports hits and misses only for cacheable requests", () => {
+		expect(ResponseCache.statusHeaders(null, null)).toEqual({});
+		expect(ResponseCache.statusHeaders("key", null)).toEqual({ "X-Cache": "MISS" });
+		expect(ResponseCache.statusHeaders("key", { choices: [] })).toEqual({ "X-Cache": "HIT" });
+	});
+});
+
+describe("ResponseCache.get and put", () => {
+	const createCache = () => {
+		const store = new Map<string, string>();
+		const kv = {
+			get: async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!) : null),
+			put: async (key: string, value: string) => {
+				store.set(key, value);
+			}
+		};
+		return new ResponseCache({ ENABLE_RESPONSE_CACHE: "true", GEMINI_CLI_KV: kv } as unknown as Env);
+	};
+
+	it("stores streamed chunks as they were sent", async () => {
+		const cache = createCache();
+		const chunks: StreamChunk[] = [
+			{ type: "thinking_content", data: "<thinking>\n", candidateIndex: 0 },
+			{ type: "text", data: "Hello", candidateIndex: 0 }
+		];
+
+		await cache.put("key", chunks);
+
+		expect(await cache.get<StreamChunk[]>("key", undefined)).toEqual(chunks);
+	});
+
+	it("skips the lookup for no-cache requests and without a key", async () => {
+		const cache = createCache();
+		await cache.put("key", { choices: [] });
+
+		expect(await cache.get("key", "no-cache")).toBeNull();
+		expect(await cache.get(null, undefined)).toBeNull();
+	});
+});
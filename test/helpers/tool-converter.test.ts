@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { ToolConverter } from "../../src/helpers/tool-converter";
+import { Tool } from "../../src/types";
+
+const weatherTool: Tool = {
+	type: "function",
+	function: {
+		name: "get_weather",
+		description: "Get the weather for a city",
+		parameters: {
+			type: "object",
+			properties: { city: { type: "string" }, options: { type: "object", additionalProperties: { type: "string" } } },
+			required: ["city"],
+			additionalProperties: false
+		}
+	}
+};
+
+describe("ToolConverter.validateTools", () => {
+	it("accepts function, googleSearch and codeExecution tools", () => {
+		expect(ToolConverter.validateTools([weatherTool, { googleSearch: {} }, { codeExecution: {} }])).toBeNull();
+	});
+
+	it("accepts parameter schemas Gemini cannot fully express", () => {
+		const tool: Tool = {
+			type: "function",
+			function: { name: "set_level", parameters: { type: "object", properties: { level: { enum: [1, 2] } } } }
+		};
+
+		expect(ToolConverter.validateTools([tool])).toBeNull();
+	});
+
+	it("rejects malformed tools", () => {
+		expect(ToolConverter.validateTools({})).toBe("tools must be an array");
+		expect(ToolConverter.validateTools([{ type: "retrieval" }])).toMatch(/^Unsupported tool type: retrieval/);
+		expect(ToolConverter.validateTools([{ type: "function", function: {} }])).toBe(
+			"Each function tool must have a function.name"
+		);
+	});
+
+	it("rejects parameters that are not a schema object", () => {
+		const tool = { type: "function", function: { name: "broken", parameters: "object" } };
+
+		expect(ToolConverter.validateTools([tool])).toBe(
+			"Invalid parameters schema for function 'broken': Schema must be a JSON object"
+		);
+	});
+});
+
+describe("ToolConverter.toGeminiTools", () => {
+	it("converts functions into declarations with Gemini schemas", () => {
+		expect(ToolConverter.toGeminiTools([weatherTool])).toEqual([
+			{
+				functionDeclarations: [
+					{
+						name: "get_weather",
+						description: "Get the weather for a city",
+						parameters: {
+							type: "object",
+							properties: { city: { type: "string" }, options: { type: "object" } },
+							required: ["city"]
+						}
+					}
+				]
+			}
+		]);
+	});
+
+	it("omits the schema of functions without parameters", () => {
+		const tool: Tool = { type: "function", function: { name: "now", parameters: { type: "object", properties: {} } } };
+
+		expect(ToolConverter.toGeminiTools([tool])).toEqual([{ functionDeclarations: [{ name: "now" }] }]);
+	});
+});
+
+describe("ToolConverter built-in tools", () => {
+	it("appends Google Search and code execution to the declared functions", () => {
+		const declarations = ToolConverter.toGeminiTools([weatherTool]);
+		const tools = ToolConverter.withCodeExecution(ToolConverter.withGoogleSearch(declarations));
+
+		expect(tools).toEqual([...declarations, { googleSearch: {} }, { codeExecution: {} }]);
+		expect(ToolConverter.withGoogleSearch(undefined)).toEqual([{ googleSearch: {} }]);
+	});
+
+	it("recognizes built-in tool entries", () => {
+		expect(ToolConverter.isGoogleSearchTool({ googleSearch: {} })).toBe(true);
+		expect(ToolConverter.isCodeExecutionTool({ codeExecution: {} })).toBe(true);
+		expect(ToolConverter.isGoogleSearchTool(weatherTool)).toBe(false);
+	});
+});
+
+describe("ToolConverter.toGeminiToolConfig", () => {
+	it.each([
+		["none", { functionCallingConfig: { mode: "NONE" } }],
+		["auto", { functionCallingConfig: { mode: "AUTO" } }],
+		["required", { functionCallingConfig: { mode: "ANY" } }]
+	] as const)("maps %s", (toolChoice, expected) => {
+		expect(ToolConverter.toGeminiToolConfig(toolChoice)).toEqual(expected);
+	});
+
+	it("restricts a named function choice to that function", () => {
+		expect(ToolConverter.toGeminiToolConfig({ type: "function", function: { name: "get_weather" } })).toEqual({
+			functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["get_weather"] }
+		});
+	});
+
+	it("leaves the config unset without a tool choice", () => {
+		expect(ToolConverter.toGeminiToolConfig(undefined)).toBeUndefined();
+	});
+});
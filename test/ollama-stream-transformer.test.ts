@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { OllamaResponseBuilder } from "../src/ollama-stream-transformer";
+
+describe("OllamaResponseBuilder", () => {
+	it("echoes the requested model and keeps the tool call id from Gemini", () => {
+		const builder = new OllamaResponseBuilder("fast:latest", "chat");
+
+		const line = builder.handleChunk({
+			type: "tool_call",
+			data: { id: "call_abc", name: "get_weather", arguments: '{"city":"Paris"}' }
+		});
+		builder.handleChunk({ type: "finish_reason", data: { reason: "STOP" } });
+
+		const toolCall = { id: "call_abc", function: { name: "get_weather", arguments: { city: "Paris" } } };
+		expect(line).toMatchObject({ model: "fast:latest", message: { tool_calls: [toolCall] } });
+		expect(builder.getResponse()).toMatchObject({
+			model: "fast:latest",
+			message: { role: "assistant", content: "", tool_calls: [toolCall] },
+			done: true,
+			done_reason: "stop"
+		});
+	});
+
+	it("only returns tool calls on the chat endpoint", () => {
+		const builder = new OllamaResponseBuilder("gemini-2.5-flash", "generate");
+
+		expect(
+			builder.handleChunk({ type: "tool_call", data: { id: "call_abc", name: "get_weather", arguments: "{}" } })
+		).toBeNull();
+	});
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createOpenAIStreamTransformer } from "../src/stream-transformer";
+import { StreamChunk } from "../src/types";
+
+/**
+ * Streams the chunks through the transformer and returns the parsed server-sent event payloads.
+ */
+async function transform(
+	chunks: StreamChunk[],
+	options?: Parameters<typeof createOpenAIStreamTransformer>[1]
+): Promise<unknown[]> {
+	const output = await new Response(
+		new ReadableStream<StreamChunk>({
+			start(controller) {
+				chunks.forEach((chunk) => controller.enqueue(chunk));
+				controller.close();
+			}
+		}).pipeThrough(createOpenAIStreamTransformer("gemini-2.5-flash", options))
+	).text();
+
+	return output
+		.split("\n\n")
+		.filter((event) => event.startsWith("data: ") && event !== "data: [DONE]")
+		.map((event) => JSON.parse(event.slice("data: ".length)));
+}
+
+describe("createOpenAIStreamTransformer", () => {
+	it("streams thinking as reasoning_content deltas", async () => {
+		const events = await transform([
+			{ type: "real_thinking", data: "Thinking it over" },
+			{ type: "text", data: "Answer" }
+		]);
+
+		expect(events[0]).toMatchObject({ choices: [{ index: 0, delta: { reasoning_content: "Thinking it over" } }] });
+		expect(events[1]).toMatchObject({ choices: [{ index: 0, delta: { role: "assistant", content: "Answer" } }] });
+		expect(events[1]).not.toHaveProperty("choices.0.delta.reasoning_content");
+		expect(events[0]).not.toHaveProperty("choices.0.delta.reasoning");
+	});
+
+	it("only adds usage when the client asked for it", async () => {
+		const chunks: StreamChunk[] = [
+			{ type: "text", data: "Answer" },
+			{ type: "finish_reason", data: { reason: "STOP" } },
+			{ type: "usage", data: { inputTokens: 5, outputTokens: 2 } }
+		];
+
+		const withoutUsage = await transform(chunks);
+		expect(withoutUsage).toHaveLength(2);
+		withoutUsage.forEach((event) => expect(event).not.toHaveProperty("usage"));
+
+		const withUsage = await transform(chunks, { includeUsage: true });
+		expect(withUsage).toHaveLength(3);
+		expect(withUsage[0]).toHaveProperty("usage", null);
+		expect(withUsage[2]).toMatchObject({
+			choices: [],
+			usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 }
+		});
+	});
+});
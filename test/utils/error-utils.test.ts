@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+	GeminiApiError,
+	InvalidRequestError,
+	PromptBlockedError,
+	parseGeminiApiError,
+	toErrorData,
+	toOpenAIErrorResponse
+} from "../../src/utils/error-utils";
+
+describe("parseGeminiApiError", () => {
+	it("keeps Google's message, status and retry delay", async () => {
+		const response = new Response(
+			JSON.stringify([
+				{
+					error: {
+						code: 429,
+						message: "Quota exceeded",
+						status: "RESOURCE_EXHAUSTED",
+						details: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "12.5s" }]
+					}
+				}
+			]),
+			{ status: 429 }
+		);
+
+		const error = await parseGeminiApiError(response, "Stream request failed");
+
+		expect(error.message).toBe("Stream request failed: 429 - Quota exceeded");
+		expect(error.status).toBe(429);
+		expect(error.googleStatus).toBe("RESOURCE_EXHAUSTED");
+		expect(error.retryAfter).toBe(13);
+	});
+
+	it("falls back to the raw body and the Retry-After header", async () => {
+		const response = new Response("Service unavailable", { status: 503, headers: { "Retry-After": "30" } });
+
+		const error = await parseGeminiApiError(response, "Request failed");
+
+		expect(error.message).toBe("Request failed: 503 - Service unavailable");
+		expect(error.retryAfter).toBe(30);
+	});
+});
+
+describe("toErrorData", () => {
+	it("reports invalid requests as a 400 naming the parameter", () => {
+		expect(toErrorData(new InvalidRequestError("Bad tool message", "messages"))).toEqual({
+			message: "Bad tool message",
+			status: 400,
+			code: null,
+			param: "messages"
+		});
+	});
+
+	it("reports blocked prompts as a content filter error", () => {
+		expect(toErrorData(new PromptBlockedError("SAFETY"))).toMatchObject({ status: 400, code: "content_filter" });
+	});
+
+	it("maps Google statuses to HTTP statuses", () => {
+		expect(toErrorData(new GeminiApiError("Denied", 403, "PERMISSION_DENIED"))).toMatchObject({
+			status: 403,
+			code: "permission_denied"
+		});
+		expect(toErrorData(new GeminiApiError("Odd", 200))).toMatchObject({ status: 500, code: null });
+	});
+
+	it("reports unknown errors as a 500", () => {
+		expect(toErrorData(new Error("boom"))).toEqual({ message: "boom", status: 500, code: null });
+	});
+});
+
+describe("toOpenAIErrorResponse", () => {
+	it("builds an OpenAI error with a Retry-After header", () => {
+		expect(toOpenAIErrorResponse(new GeminiApiError("Quota exceeded", 429, "RESOURCE_EXHAUSTED", 5))).toEqual({
+			status: 429,
+			body: {
+				error: { message: "Quota exceeded", type: "rate_limit_error", code: "resource_exhausted", param: null }
+			},
+			headers: { "Retry-After": "5" }
+		});
+	});
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { mapFinishReason, mapFinishReasonToAnthropic } from "../../src/utils/finish-reason";
+
+describe("mapFinishReason", () => {
+	it.each([
+		["STOP", "stop"],
+		["MAX_TOKENS", "length"],
+		["SAFETY", "content_filter"],
+		["RECITATION", "content_filter"],
+		["PROHIBITED_CONTENT", "content_filter"],
+		["OTHER", "stop"],
+		[undefined, "stop"]
+	])("maps %s to %s", (geminiReason, expected) => {
+		expect(mapFinishReason(geminiReason)).toBe(expected);
+	});
+
+	it("reports tool calls for a STOP that ended on a function call", () => {
+		expect(mapFinishReason("STOP", true)).toBe("tool_calls");
+	});
+
+	it("keeps length and content filter reasons over tool calls", () => {
+		expect(mapFinishReason("MAX_TOKENS", true)).toBe("length");
+		expect(mapFinishReason("SAFETY", true)).toBe("content_filter");
+	});
+});
+
+describe("mapFinishReasonToAnthropic", () => {
+	it.each([
+		["STOP", false, "end_turn"],
+		["STOP", true, "tool_use"],
+		["MAX_TOKENS", false, "max_tokens"],
+		["SAFETY", false, "refusal"],
+		[undefined, false, "end_turn"]
+	])("maps %s (tool use: %s) to %s", (geminiReason, hasToolUse, expected) => {
+		expect(mapFinishReasonToAnthropic(geminiReason, hasToolUse)).toBe(expected);
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { CitationAligner, toUrlCitations } from "../../src/utils/grounding-utils";
+import { UrlCitationAnnotation } from "../../src/types";
+
+const citation = (start_index: number, end_index: number, url = "https://example.com"): UrlCitationAnnotation => ({
+	type: "url_citation",
+	url_citation: { start_index, end_index, url, title: "Example" }
+});
+
+describe("toUrlCitations", () => {
+	it("creates one citation per cited source", () => {
+		const metadata = {
+			groundingChunks: [
+				{ web: { uri: "https://example.com", title: "Example" } },
+				{ web: { uri: "https://example.org" } }
+			],
+			groundingSupports: [{ segment: { startIndex: 0, endIndex: 5 }, groundingChunkIndices: [0, 1] }]
+		};
+
+		expect(toUrlCitations(metadata, "Hello world")).toEqual([
+			citation(0, 5),
+			{
+				type: "url_citation",
+				url_citation: { start_index: 0, end_index: 5, url: "https://example.org", title: "https://example.org" }
+			}
+		]);
+	});
+
+	it("converts UTF-8 byte offsets into character offsets", () => {
+		// "Grüße " is 8 bytes but 6 characters
+		const metadata = {
+			groundingChunks: [{ web: { uri: "https://example.com", title: "Example" } }],
+			groundingSupports: [{ segment: { startIndex: 8, endIndex: 13 }, groundingChunkIndices: [0] }]
+		};
+
+		expect(toUrlCitations(metadata, "Grüße world")).toEqual([citation(6, 11)]);
+	});
+
+	it("skips supports without an end index or a web source", () => {
+		const metadata = {
+			groundingChunks: [{}],
+			groundingSupports: [
+				{ segment: { startIndex: 0 }, groundingChunkIndices: [0] },
+				{ segment: { endIndex: 3 }, groundingChunkIndices: [0, 1] }
+			]
+		};
+
+		expect(toUrlCitations(metadata, "abc")).toEqual([]);
+	});
+});
+
+describe("CitationAligner", () => {
+	it("leaves citations unchanged when the content is only answer text", () => {
+		const aligner = new CitationAligner();
+		aligner.addContent("Hello world", true);
+
+		expect(aligner.align([citation(6, 11)])).toEqual([citation(6, 11)]);
+	});
+
+	it("shifts citations past content inserted ahead of the answer", () => {
+		const notice = "[Auto-switched from gemini-2.5-pro to gemini-2.5-flash due to rate limiting]\n\n";
+		const content = `${notice}<thinking>\n...\n</thinking>\n\nHello world`;
+		const aligner = new CitationAligner();
+		aligner.addContent(notice, false);
+		aligner.addContent("<thinking>\n...", false);
+		aligner.addContent("\n</thinking>\n\n", false);
+		aligner.addContent("Hello ", true);
+		aligner.addContent("world", true);
+
+		const [aligned] = aligner.align([citation(6, 11)]);
+		expect(content.slice(aligned.url_citation.start_index, aligned.url_citation.end_index)).toBe("world");
+	});
+
+	it("keeps content inserted at a range boundary outside the range", () => {
+		const aligner = new CitationAligner();
+		aligner.addContent("Hello", true);
+		aligner.addContent("[inserted]", false);
+		aligner.addContent(" world", true);
+
+		expect(aligner.align([citation(0, 5), citation(5, 11)])).toEqual([citation(0, 5), citation(15, 21)]);
+	});
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { toOpenAILogprobs } from "../../src/utils/logprobs-utils";
+
+describe("toOpenAILogprobs", () => {
+	it("pairs every chosen token with the top candidates of its step", () => {
+		expect(
+			toOpenAILogprobs({
+				chosenCandidates: [
+					{ token: "Hi", logProbability: -0.1 },
+					{ token: "!", logProbability: -0.5 }
+				],
+				topCandidates: [
+					{
+						candidates: [
+							{ token: "Hi", logProbability: -0.1 },
+							{ token: "Hello", logProbability: -2.3 }
+						]
+					}
+				]
+			})
+		).toEqual([
+			{
+				token: "Hi",
+				logprob: -0.1,
+				bytes: [72, 105],
+				top_logprobs: [
+					{ token: "Hi", logprob: -0.1, bytes: [72, 105] },
+					{ token: "Hello", logprob: -2.3, bytes: [72, 101, 108, 108, 111] }
+				]
+			},
+			{ token: "!", logprob: -0.5, bytes: [33], top_logprobs: [] }
+		]);
+	});
+
+	it("reports the UTF-8 bytes of multi-byte tokens", () => {
+		expect(toOpenAILogprobs({ chosenCandidates: [{ token: "é" }] })).toEqual([
+			{ token: "é", logprob: 0, bytes: [195, 169], top_logprobs: [] }
+		]);
+	});
+
+	it("returns no entries without chosen candidates", () => {
+		expect(toOpenAILogprobs({})).toEqual([]);
+	});
+});
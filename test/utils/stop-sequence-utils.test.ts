@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { applyStopSequences } from "../../src/utils/stop-sequence-utils";
+import { StreamChunk } from "../../src/types";
+
+async function collect(chunks: StreamChunk[], stopSequences: string[]): Promise<StreamChunk[]> {
+	const result: StreamChunk[] = [];
+	for await (const chunk of applyStopSequences(
+		(async function* () {
+			yield* chunks;
+		})(),
+		stopSequences
+	)) {
+		result.push(chunk);
+	}
+	return result;
+}
+
+const usage: StreamChunk = { type: "usage", data: { inputTokens: 5, outputTokens: 3 } };
+
+describe("applyStopSequences", () => {
+	it("passes the stream through without stop sequences", async () => {
+		const chunks: StreamChunk[] = [{ type: "text", data: "Hello" }, usage];
+
+		expect(await collect(chunks, [])).toEqual(chunks);
+	});
+
+	it("cuts the text at a sequence split across chunks and reports it", async () => {
+		const chunks: StreamChunk[] = [
+			{ type: "text", data: "Answer: 42\nEN", candidateIndex: 0 },
+			{ type: "text", data: "D more", candidateIndex: 0 },
+			{ type: "finish_reason", data: { reason: "STOP" }, candidateIndex: 0 },
+			usage
+		];
+
+		expect(await collect(chunks, ["\nEND"])).toEqual([
+			{ type: "text", data: "Answer: 42", candidateIndex: 0 },
+			{ type: "finish_reason", data: { reason: "STOP", stopSequence: "\nEND" }, candidateIndex: 0 },
+			usage
+		]);
+	});
+
+	it("releases held back text that did not become a stop sequence", async () => {
+		const chunks: StreamChunk[] = [
+			{ type: "text", data: "a <" },
+			{ type: "text", data: "b" },
+			{ type: "text", data: " <" },
+			{ type: "finish_reason", data: { reason: "STOP" } }
+		];
+
+		expect(await collect(chunks, ["<stop>"])).toEqual([
+			{ type: "text", data: "a " },
+			{ type: "text", data: "<b" },
+			{ type: "text", data: " " },
+			{ type: "text", data: "<" },
+			{ type: "finish_reason", data: { reason: "STOP" } }
+		]);
+	});
+
+	it("matches every candidate separately", async () => {
+		const chunks: StreamChunk[] = [
+			{ type: "text", data: "one STOP two", candidateIndex: 0 },
+			{ type: "text", data: "three", candidateIndex: 1 },
+			{ type: "finish_reason", data: { reason: "STOP" }, candidateIndex: 0 },
+			{ type: "finish_reason", data: { reason: "STOP" }, candidateIndex: 1 }
+		];
+
+		expect(await collect(chunks, ["STOP"])).toEqual([
+			{ type: "text", data: "one ", candidateIndex: 0 },
+			{ type: "finish_reason", data: { reason: "STOP", stopSequence: "STOP" }, candidateIndex: 0 },
+			{ type: "text", data: "three", candidateIndex: 1 },
+			{ type: "finish_reason", data: { reason: "STOP" }, candidateIndex: 1 }
+		]);
+	});
+});
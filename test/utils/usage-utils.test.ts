@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+	fromGeminiUsage,
+	toOpenAIUsage,
+	toResponseUsage,
+	toAnthropicUsage,
+	addUsage
+} from "../../src/utils/usage-utils";
+
+describe("fromGeminiUsage", () => {
+	it("only sets the optional counts Gemini reports", () => {
+		expect(fromGeminiUsage({ promptTokenCount: 10, candidatesTokenCount: 5 })).toEqual({
+			inputTokens: 10,
+			outputTokens: 5
+		});
+		expect(fromGeminiUsage({})).toEqual({ inputTokens: 0, outputTokens: 0 });
+	});
+
+	it("maps thoughts, cache, tool use and per-modality counts", () => {
+		expect(
+			fromGeminiUsage({
+				promptTokenCount: 100,
+				candidatesTokenCount: 20,
+				thoughtsTokenCount: 30,
+				cachedContentTokenCount: 40,
+				toolUsePromptTokenCount: 7,
+				promptTokensDetails: [
+					{ modality: "TEXT", tokenCount: 60 },
+					{ modality: "IMAGE", tokenCount: 40 }
+				],
+				candidatesTokensDetails: [{ modality: "TEXT", tokenCount: 20 }]
+			})
+		).toEqual({
+			inputTokens: 100,
+			outputTokens: 20,
+			reasoningTokens: 30,
+			cachedTokens: 40,
+			toolUsePromptTokens: 7,
+			inputTokensByModality: { text: 60, image: 40 },
+			outputTokensByModality: { text: 20 }
+		});
+	});
+});
+
+describe("usage conversion", () => {
+	const usage = {
+		inputTokens: 100,
+		outputTokens: 20,
+		reasoningTokens: 30,
+		cachedTokens: 40,
+		toolUsePromptTokens: 7,
+		inputTokensByModality: { text: 100 }
+	};
+
+	it("counts reasoning as completion tokens and tool use prompts as prompt tokens for OpenAI", () => {
+		expect(toOpenAIUsage(usage)).toEqual({
+			prompt_tokens: 107,
+			completion_tokens: 50,
+			total_tokens: 157,
+			prompt_tokens_details: { cached_tokens: 40, tool_use_prompt_tokens: 7, modality_tokens: { text: 100 } },
+			completion_tokens_details: { reasoning_tokens: 30 }
+		});
+	});
+
+	it("converts to Responses API usage", () => {
+		expect(toResponseUsage(usage)).toEqual({
+			input_tokens: 107,
+			input_tokens_details: { cached_tokens: 40 },
+			output_tokens: 50,
+			output_tokens_details: { reasoning_tokens: 30 },
+			total_tokens: 157
+		});
+	});
+
+	it("reports cache reads separately from Anthropic input tokens", () => {
+		expect(toAnthropicUsage(usage)).toEqual({ input_tokens: 67, output_tokens: 50, cache_read_input_tokens: 40 });
+		expect(toAnthropicUsage({ inputTokens: 5, outputTokens: 1 })).toEqual({ input_tokens: 5, output_tokens: 1 });
+	});
+
+	it("adds usage reports together", () => {
+		expect(
+			addUsage(
+				{ inputTokens: 1, outputTokens: 2, inputTokensByModality: { text: 1 } },
+				{ inputTokens: 3, outputTokens: 4, reasoningTokens: 5, inputTokensByModality: { text: 2, image: 1 } }
+			)
+		).toEqual({
+			inputTokens: 4,
+			outputTokens: 6,
+			reasoningTokens: 5,
+			cachedTokens: 0,
+			toolUsePromptTokens: 0,
+			inputTokensByModality: { text: 3, image: 1 },
+			outputTokensByModality: undefined
+		});
+	});
+});